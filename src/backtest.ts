@@ -1,6 +1,8 @@
 import type { Asset, Candle } from "./candles.js";
+import { WINDOW_SECONDS, type WindowDuration } from "./market.js";
+import { testEdge, describeEdgeSignificance, getSignificanceOptions } from "./significance.js";
 
-interface FiveMinWindow {
+export interface MarketWindow {
   startTime: number;
   open: number;
   close: number;
@@ -10,8 +12,45 @@ interface FiveMinWindow {
   candles: Candle[];
 }
 
-interface BacktestResult {
+/** One backtest configuration. The defaults reproduce the live threshold strategy. */
+export interface BacktestConfig {
+  buyPrice: number;         // price paid per share on entry
+  lookaheadCandles: number; // side = direction of the first N 1m candles
+  minMove: number;          // skip the window if those candles moved less than this fraction
+  hours: number[] | null;   // UTC hours to trade, null = all
+  days: number[] | null;    // UTC days of week to trade (0 = Sun), null = all
+  bankroll: number;         // starting dollars, for drawdown % and daily returns
+}
+
+export const DEFAULT_BACKTEST_CONFIG: BacktestConfig = {
+  buyPrice: 0.60,
+  lookaheadCandles: 2,
+  minMove: 0,
+  hours: null,
+  days: null,
+  bankroll: 50,
+};
+
+export interface EquityPoint {
+  time: number;   // window start, ms
+  equity: number; // bankroll + cumulative P&L after this trade
+}
+
+/** Candle-derived direction against Polymarket's own resolution, over windows that have both. */
+export interface LabelComparison {
+  compared: number;  // windows with a harvested resolution
+  disagreed: number; // of those, where the candle direction differs from the resolution
+  unlabeled: number; // windows without a harvested resolution, left out of the backtest
+}
+
+export type Resolutions = Map<Asset, Map<number, "Up" | "Down">>; // asset → window start ms → outcome
+
+export interface BacktestResult {
   asset: Asset;
+  duration: WindowDuration;
+  config: BacktestConfig;
+  outcomeSource: "candles" | "polymarket";
+  labelComparison: LabelComparison | null; // set when scored against Polymarket resolutions
   totalWindows: number;
   tradesEntered: number;
   wins: number;
@@ -20,6 +59,15 @@ interface BacktestResult {
   totalProfit: number;
   avgProfit: number;
   maxConsecutiveLosses: number;
+  maxDrawdown: number;           // largest peak-to-trough fall in cumulative P&L
+  maxDrawdownPct: number;        // the same fall as a % of the equity at its peak
+  minEquity: number;             // lowest bankroll reached; <= 0 means the bankroll was wiped out
+  profitFactor: number;          // gross wins / gross losses (Infinity with no losses)
+  expectancy: number;            // expected P&L per trade
+  sharpe: number | null;         // annualized from daily returns on the bankroll, null under 2 days
+  sortino: number | null;
+  longestUnderwaterMs: number;   // longest stretch below a previous equity peak
+  equityCurve: EquityPoint[];    // ordered, one point per trade
   profitByDay: Map<string, number>;
   winsByHour: number[];          // 24 entries (0-23 UTC)
   tradesByHour: number[];        // 24 entries (0-23 UTC)
@@ -27,27 +75,28 @@ interface BacktestResult {
   tradesByHourDay: number[][];   // 24 × 7 (hour × day-of-week)
 }
 
-const BUY_PRICE = 0.60;
-const WIN_PAYOUT = 1.00;
-const MIN_CANDLES_PER_WINDOW = 3;
+export const WIN_PAYOUT = 1.00;
+const MIN_CANDLE_FRACTION = 0.6; // need 3 of 5 1m candles in a 5m window
 
-function aggregateToFiveMin(candles: Candle[]): FiveMinWindow[] {
-  // Group candles into 5-min windows aligned to 300s boundaries
+export function aggregateToWindows(candles: Candle[], duration: WindowDuration): MarketWindow[] {
+  // Group candles into windows aligned to the market's window boundaries
+  const windowMs = WINDOW_SECONDS[duration] * 1000;
+  const minCandles = Math.ceil((windowMs / 60_000) * MIN_CANDLE_FRACTION);
   const buckets = new Map<number, Candle[]>();
 
   for (const c of candles) {
-    const boundaryMs = Math.floor(c.openTime / 300_000) * 300_000;
+    const boundaryMs = Math.floor(c.openTime / windowMs) * windowMs;
     const list = buckets.get(boundaryMs) ?? [];
     list.push(c);
     buckets.set(boundaryMs, list);
   }
 
-  const windows: FiveMinWindow[] = [];
+  const windows: MarketWindow[] = [];
   const sortedKeys = [...buckets.keys()].sort((a, b) => a - b);
 
   for (const key of sortedKeys) {
     const group = buckets.get(key)!;
-    if (group.length < MIN_CANDLES_PER_WINDOW) continue;
+    if (group.length < minCandles) continue;
 
     // Sort candles within window by openTime
     group.sort((a, b) => a.openTime - b.openTime);
@@ -64,11 +113,49 @@ function aggregateToFiveMin(candles: Candle[]): FiveMinWindow[] {
   return windows;
 }
 
-function simulateStrategy(windows: FiveMinWindow[]): {
+/** Which side to buy in a window, or null to skip it. */
+export type SidePicker = (w: MarketWindow) => "Up" | "Down" | null;
+
+/** The built-in entry rule, parameterized by a BacktestConfig. */
+export function configSidePicker(config: BacktestConfig): SidePicker {
+  return (w) => {
+    if (w.candles.length < config.lookaheadCandles) return null;
+
+    const dt = new Date(w.startTime);
+    if (config.hours && !config.hours.includes(dt.getUTCHours())) return null;
+    if (config.days && !config.days.includes(dt.getUTCDay())) return null;
+
+    // Side selection: direction of the first N candles, if they moved enough
+    const first = w.candles[0].open;
+    const last = w.candles[config.lookaheadCandles - 1].close;
+    if (Math.abs(last - first) / first < config.minMove) return null;
+    return last >= first ? "Up" : "Down";
+  };
+}
+
+/** Outcome of the strategy on one window, or null if it skips the window. */
+export function simulateWindow(
+  w: MarketWindow,
+  config: BacktestConfig,
+  pickSide: SidePicker = configSidePicker(config)
+): { pick: "Up" | "Down"; isWin: boolean; profit: number } | null {
+  const pick = pickSide(w);
+  if (!pick) return null;
+
+  const isWin = pick === w.direction;
+  const profit = isWin ? WIN_PAYOUT - config.buyPrice : -config.buyPrice;
+  return { pick, isWin, profit };
+}
+
+function simulateStrategy(windows: MarketWindow[], config: BacktestConfig, pickSide: SidePicker): {
   trades: number;
   wins: number;
   losses: number;
   maxConsecutiveLosses: number;
+  maxDrawdown: number;
+  maxDrawdownPct: number;
+  longestUnderwaterMs: number;
+  equityCurve: EquityPoint[];
   profitByDay: Map<string, number>;
   winsByHour: number[];
   tradesByHour: number[];
@@ -80,6 +167,13 @@ function simulateStrategy(windows: FiveMinWindow[]): {
   let losses = 0;
   let consecutiveLosses = 0;
   let maxConsecutiveLosses = 0;
+  let cumulative = 0;
+  let peak = 0;
+  let maxDrawdown = 0;
+  let maxDrawdownPct = 0;
+  let peakTime: number | null = null;
+  let longestUnderwaterMs = 0;
+  const equityCurve: EquityPoint[] = [];
   const profitByDay = new Map<string, number>();
   const winsByHour = Array(24).fill(0) as number[];
   const tradesByHour = Array(24).fill(0) as number[];
@@ -87,11 +181,8 @@ function simulateStrategy(windows: FiveMinWindow[]): {
   const tradesByHourDay: number[][] = Array.from({ length: 24 }, () => Array(7).fill(0));
 
   for (const w of windows) {
-    if (w.candles.length < 2) continue;
-
-    // Side selection: look at first 2 candles
-    const pick: "Up" | "Down" =
-      w.candles[1].close >= w.candles[0].open ? "Up" : "Down";
+    const outcome = simulateWindow(w, config, pickSide);
+    if (!outcome) continue;
 
     trades++;
 
@@ -99,7 +190,19 @@ function simulateStrategy(windows: FiveMinWindow[]): {
     const hour = dt.getUTCHours();
     const dow = dt.getUTCDay();
     const dayKey = dt.toISOString().slice(0, 10);
-    const isWin = pick === w.direction;
+    const { isWin, profit } = outcome;
+    cumulative += profit;
+    if (cumulative >= peak) {
+      peak = cumulative;
+      peakTime = w.startTime;
+    } else {
+      maxDrawdown = Math.max(maxDrawdown, peak - cumulative);
+      maxDrawdownPct = Math.max(maxDrawdownPct, ((peak - cumulative) / (config.bankroll + peak)) * 100);
+    }
+    // Underwater from the last peak (or the first trade) until equity gets back to it
+    peakTime ??= w.startTime;
+    longestUnderwaterMs = Math.max(longestUnderwaterMs, w.startTime - peakTime);
+    equityCurve.push({ time: w.startTime, equity: config.bankroll + cumulative });
 
     tradesByHour[hour]++;
     tradesByHourDay[hour][dow]++;
@@ -109,60 +212,151 @@ function simulateStrategy(windows: FiveMinWindow[]): {
       consecutiveLosses = 0;
       winsByHour[hour]++;
       winsByHourDay[hour][dow]++;
-      const profit = WIN_PAYOUT - BUY_PRICE;
-      profitByDay.set(dayKey, (profitByDay.get(dayKey) ?? 0) + profit);
     } else {
       losses++;
       consecutiveLosses++;
       if (consecutiveLosses > maxConsecutiveLosses) {
         maxConsecutiveLosses = consecutiveLosses;
       }
-      profitByDay.set(dayKey, (profitByDay.get(dayKey) ?? 0) - BUY_PRICE);
     }
+    profitByDay.set(dayKey, (profitByDay.get(dayKey) ?? 0) + profit);
   }
 
-  return { trades, wins, losses, maxConsecutiveLosses, profitByDay, winsByHour, tradesByHour, winsByHourDay, tradesByHourDay };
+  return {
+    trades, wins, losses, maxConsecutiveLosses, maxDrawdown, maxDrawdownPct, longestUnderwaterMs, equityCurve,
+    profitByDay, winsByHour, tradesByHour, winsByHourDay, tradesByHourDay,
+  };
+}
+
+const DAYS_PER_YEAR = 365; // crypto trades every day
+
+/** Annualized Sharpe and Sortino ratios of daily returns on the bankroll. */
+function dailyRatios(profitByDay: Map<string, number>, bankroll: number): { sharpe: number | null; sortino: number | null } {
+  const returns = [...profitByDay.values()].map((p) => p / bankroll);
+  if (returns.length < 2) return { sharpe: null, sortino: null };
+
+  const mean = returns.reduce((a, b) => a + b, 0) / returns.length;
+  const variance = returns.reduce((a, r) => a + (r - mean) ** 2, 0) / (returns.length - 1);
+  const downside = Math.sqrt(returns.reduce((a, r) => a + Math.min(0, r) ** 2, 0) / returns.length);
+  const annualize = Math.sqrt(DAYS_PER_YEAR);
+  return {
+    sharpe: variance > 0 ? (mean / Math.sqrt(variance)) * annualize : null,
+    sortino: downside > 0 ? (mean / downside) * annualize : null,
+  };
 }
 
+/**
+ * Backtest each asset's candles. With `resolutions`, windows are scored by Polymarket's
+ * real outcome instead of the candle direction, and windows without one are left out.
+ */
 export function runBacktest(
-  candleData: Map<Asset, Candle[]>
+  candleData: Map<Asset, Candle[]>,
+  duration: WindowDuration = "5m",
+  config: BacktestConfig = DEFAULT_BACKTEST_CONFIG,
+  resolutions?: Resolutions
 ): BacktestResult[] {
   const results: BacktestResult[] = [];
 
   for (const [asset, candles] of candleData) {
-    const windows = aggregateToFiveMin(candles);
-    const sim = simulateStrategy(windows);
-
-    const winRate = sim.trades > 0 ? (sim.wins / sim.trades) * 100 : 0;
-    const totalProfit =
-      sim.wins * (WIN_PAYOUT - BUY_PRICE) - sim.losses * BUY_PRICE;
-    const avgProfit = sim.trades > 0 ? totalProfit / sim.trades : 0;
+    const windows = aggregateToWindows(candles, duration);
+    if (!resolutions) {
+      results.push(backtestWindows(asset, duration, windows, config));
+      continue;
+    }
 
+    const { labeled, comparison } = applyResolutions(windows, resolutions.get(asset) ?? new Map());
     results.push({
-      asset,
-      totalWindows: windows.length,
-      tradesEntered: sim.trades,
-      wins: sim.wins,
-      losses: sim.losses,
-      winRate,
-      totalProfit,
-      avgProfit,
-      maxConsecutiveLosses: sim.maxConsecutiveLosses,
-      profitByDay: sim.profitByDay,
-      winsByHour: sim.winsByHour,
-      tradesByHour: sim.tradesByHour,
-      winsByHourDay: sim.winsByHourDay,
-      tradesByHourDay: sim.tradesByHourDay,
+      ...backtestWindows(asset, duration, labeled, config),
+      outcomeSource: "polymarket",
+      labelComparison: comparison,
     });
   }
 
   return results;
 }
 
+/** Relabel windows with their real outcome, dropping windows that have none. */
+export function applyResolutions(
+  windows: MarketWindow[],
+  outcomes: Map<number, "Up" | "Down">
+): { labeled: MarketWindow[]; comparison: LabelComparison } {
+  const labeled: MarketWindow[] = [];
+  const comparison: LabelComparison = { compared: 0, disagreed: 0, unlabeled: 0 };
+
+  for (const w of windows) {
+    const outcome = outcomes.get(w.startTime);
+    if (!outcome) {
+      comparison.unlabeled++;
+      continue;
+    }
+    comparison.compared++;
+    if (outcome !== w.direction) comparison.disagreed++;
+    labeled.push({ ...w, direction: outcome });
+  }
+
+  return { labeled, comparison };
+}
+
+/**
+ * Backtest one asset's already-aggregated windows — lets a sweep aggregate once per asset.
+ * `pickSide` replaces the config's built-in entry rule; buy price and bankroll still apply.
+ */
+export function backtestWindows(
+  asset: Asset,
+  duration: WindowDuration,
+  windows: MarketWindow[],
+  config: BacktestConfig,
+  pickSide: SidePicker = configSidePicker(config)
+): BacktestResult {
+  const sim = simulateStrategy(windows, config, pickSide);
+
+  const winRate = sim.trades > 0 ? (sim.wins / sim.trades) * 100 : 0;
+  const totalProfit =
+    sim.wins * (WIN_PAYOUT - config.buyPrice) - sim.losses * config.buyPrice;
+  const avgProfit = sim.trades > 0 ? totalProfit / sim.trades : 0;
+  const grossWins = sim.wins * (WIN_PAYOUT - config.buyPrice);
+  const grossLosses = sim.losses * config.buyPrice;
+  const { sharpe, sortino } = dailyRatios(sim.profitByDay, config.bankroll);
+
+  return {
+    asset,
+    duration,
+    config,
+    outcomeSource: "candles",
+    labelComparison: null,
+    totalWindows: windows.length,
+    tradesEntered: sim.trades,
+    wins: sim.wins,
+    losses: sim.losses,
+    winRate,
+    totalProfit,
+    avgProfit,
+    maxConsecutiveLosses: sim.maxConsecutiveLosses,
+    maxDrawdown: sim.maxDrawdown,
+    maxDrawdownPct: sim.maxDrawdownPct,
+    minEquity: sim.equityCurve.reduce((min, p) => Math.min(min, p.equity), config.bankroll),
+    profitFactor: grossLosses > 0 ? grossWins / grossLosses : grossWins > 0 ? Infinity : 0,
+    expectancy: avgProfit,
+    sharpe,
+    sortino,
+    longestUnderwaterMs: sim.longestUnderwaterMs,
+    equityCurve: sim.equityCurve,
+    profitByDay: sim.profitByDay,
+    winsByHour: sim.winsByHour,
+    tradesByHour: sim.tradesByHour,
+    winsByHourDay: sim.winsByHourDay,
+    tradesByHourDay: sim.tradesByHourDay,
+  };
+}
+
 export function printBacktestResults(results: BacktestResult[]): void {
-  console.log("\n=== Strategy Backtest Results ===\n");
-  console.log(`Buy price: $${BUY_PRICE.toFixed(2)} | Win payout: $${WIN_PAYOUT.toFixed(2)}`);
-  console.log(`Break-even win rate: ${((BUY_PRICE / WIN_PAYOUT) * 100).toFixed(1)}%\n`);
+  const durations = [...new Set(results.map((r) => r.duration))].join(", ");
+  console.log(`\n=== Strategy Backtest Results (${durations || "no"} windows) ===\n`);
+  const buyPrice = results[0]?.config.buyPrice ?? DEFAULT_BACKTEST_CONFIG.buyPrice;
+  console.log(`Buy price: $${buyPrice.toFixed(2)} | Win payout: $${WIN_PAYOUT.toFixed(2)}`);
+  console.log(`Break-even win rate: ${((buyPrice / WIN_PAYOUT) * 100).toFixed(1)}%`);
+  const scoredByPolymarket = results.some((r) => r.outcomeSource === "polymarket");
+  console.log(`Outcomes: ${scoredByPolymarket ? "harvested Polymarket resolutions" : "candle close vs open"}\n`);
 
   const header =
     "Asset | Windows | Trades | Wins | Losses | Win Rate | Total P&L | Avg P&L | Max Consec L";
@@ -211,6 +405,64 @@ export function printBacktestResults(results: BacktestResult[]): void {
     console.log(`Worst asset: ${sorted[sorted.length - 1].asset} (${sorted[sorted.length - 1].winRate.toFixed(1)}% win rate)`);
   }
 
+  // Is the win rate really above break-even, or could this many trades produce it by chance?
+  const { alpha } = getSignificanceOptions();
+  const ciLabel = `${Math.round((1 - alpha) * 100)}% CI`;
+  console.log(`\n--- Edge vs Break-even (binomial test, Wilson ${ciLabel}) ---\n`);
+  const sigHeader = `Asset | Trades | Win Rate | ${ciLabel.padEnd(13)} | Verdict`;
+  console.log(sigHeader);
+  console.log("-".repeat(100));
+  const sigRows: [string, number, number][] = results.map((r) => [r.asset, r.wins, r.wins + r.losses]);
+  if (results.length > 1) sigRows.push(["ALL", totalWins, totalWins + totalLosses]);
+  for (const [label, wins, trades] of sigRows) {
+    const sig = testEdge(wins, trades, buyPrice / WIN_PAYOUT);
+    if (!sig) {
+      console.log(`${label.padEnd(5)} | ${String(trades).padStart(6)} | ${"N/A".padStart(8)} |`);
+      continue;
+    }
+    const ci = `${sig.ciLower.toFixed(1)}-${sig.ciUpper.toFixed(1)}%`;
+    console.log(
+      `${label.padEnd(5)} | ${String(trades).padStart(6)} | ${`${sig.winRate.toFixed(1)}%`.padStart(8)} | ` +
+      `${ci.padEnd(13)} | ${describeEdgeSignificance(sig)}`
+    );
+  }
+
+  // How often the candle direction disagrees with how Polymarket actually resolved
+  if (scoredByPolymarket) {
+    console.log("\n--- Candle Direction vs Polymarket Resolution ---\n");
+    const labelHeader = "Asset | Compared | Disagreed | Disagree % | Unlabeled";
+    console.log(labelHeader);
+    console.log("-".repeat(labelHeader.length));
+    for (const r of results) {
+      const c = r.labelComparison;
+      if (!c) continue;
+      const pct = c.compared > 0 ? `${((c.disagreed / c.compared) * 100).toFixed(2)}%` : "N/A";
+      console.log(
+        `${r.asset.padEnd(5)} | ${String(c.compared).padStart(8)} | ${String(c.disagreed).padStart(9)} | ` +
+        `${pct.padStart(10)} | ${String(c.unlabeled).padStart(9)}`
+      );
+    }
+  }
+
+  // Risk and performance: can the strategy survive the bankroll it starts with?
+  console.log(`\n--- Risk & Performance ($${results[0]?.config.bankroll ?? DEFAULT_BACKTEST_CONFIG.bankroll} bankroll, 1 share per trade) ---\n`);
+  const riskHeader =
+    "Asset | Max DD $ | Max DD % | Min Equity | Profit Factor | Expectancy | Sharpe | Sortino | Longest Underwater";
+  console.log(riskHeader);
+  console.log("-".repeat(riskHeader.length));
+  for (const r of results) {
+    const ratio = (v: number | null) => (v === null ? "N/A" : v.toFixed(2));
+    const expSign = r.expectancy >= 0 ? "+" : "";
+    const ruined = r.minEquity <= 0 ? " RUIN" : "";
+    console.log(
+      `${r.asset.padEnd(5)} | ${`$${r.maxDrawdown.toFixed(2)}`.padStart(8)} | ${`${r.maxDrawdownPct.toFixed(1)}%`.padStart(8)} | ` +
+      `${`$${r.minEquity.toFixed(2)}${ruined}`.padStart(10)} | ` +
+      `${(isFinite(r.profitFactor) ? r.profitFactor.toFixed(2) : "inf").padStart(13)} | ` +
+      `${`${expSign}$${r.expectancy.toFixed(4)}`.padStart(10)} | ${ratio(r.sharpe).padStart(6)} | ` +
+      `${ratio(r.sortino).padStart(7)} | ${formatDuration(r.longestUnderwaterMs).padStart(18)}`
+    );
+  }
+
   // Per-asset win rate heatmap: hour (rows) × day-of-week (columns)
   const dayNames = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
 
@@ -280,3 +532,19 @@ export function printBacktestResults(results: BacktestResult[]): void {
 
   console.log("");
 }
+
+function formatDuration(ms: number): string {
+  const hours = ms / 3_600_000;
+  return hours >= 48 ? `${(hours / 24).toFixed(1)}d` : `${hours.toFixed(1)}h`;
+}
+
+/** Backtest results as plain JSON-ready objects (Maps flattened), for --export. */
+export function backtestResultsToJson(results: BacktestResult[]): object[] {
+  return results.map((r) => ({
+    ...r,
+    profitFactor: isFinite(r.profitFactor) ? r.profitFactor : null,
+    profitByDay: Object.fromEntries(r.profitByDay),
+    significance: testEdge(r.wins, r.wins + r.losses, r.config.buyPrice / WIN_PAYOUT),
+    equityCurve: r.equityCurve.map((p) => ({ time: new Date(p.time).toISOString(), equity: p.equity })),
+  }));
+}
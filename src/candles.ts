@@ -1,4 +1,5 @@
-import { fetchWithTimeout } from "./market.js";
+// No runtime imports: market.ts depends on this module, and importing it must not open a database
+import type { CandleRow } from "./db.js";
 
 export type Asset = "BTC" | "ETH" | "XRP" | "SOL";
 
@@ -12,7 +13,7 @@ export interface Candle {
   closeTime: number;  // Unix ms
 }
 
-export const ASSETS: Asset[] = ["XRP"];
+export const ASSETS: Asset[] = ["BTC", "ETH", "XRP", "SOL"];
 
 const ASSET_SYMBOLS: Record<Asset, string> = {
   BTC: "BTCUSDT",
@@ -23,11 +24,24 @@ const ASSET_SYMBOLS: Record<Asset, string> = {
 
 const CANDLES_PER_REQUEST = 1000;
 const INTER_REQUEST_DELAY = 100; // ms between paginated requests
+const REQUEST_TIMEOUT = 15_000;
+
+/** Where candles are kept between runs. Callers pass the SQLite store, db.ts's candleCache. */
+export interface CandleCache {
+  getCandles(symbol: string, startMs: number, endMs: number): CandleRow[];
+  insertCandles(rows: CandleRow[]): void;
+  getGaps(symbol: string, startMs: number, endMs: number): [number, number][]; // known-empty [start, end) ranges
+  insertGap(symbol: string, startMs: number, endMs: number): void;
+}
 
 function sleep(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
+function fetchWithTimeout(url: string): Promise<Response> {
+  return fetch(url, { signal: AbortSignal.timeout(REQUEST_TIMEOUT) });
+}
+
 async function fetchBinanceCandles(
   asset: Asset,
   startMs: number,
@@ -44,7 +58,7 @@ async function fetchBinanceCandles(
 
     let res: Response;
     try {
-      res = await fetchWithTimeout(url, 15_000);
+      res = await fetchWithTimeout(url);
     } catch (err) {
       console.error(`[Candles] Binance request failed for ${asset}:`, err);
       return null;
@@ -63,7 +77,11 @@ async function fetchBinanceCandles(
       return null;
     }
 
-    if (!Array.isArray(data) || data.length === 0) break;
+    if (!Array.isArray(data)) {
+      console.error(`[Candles] Unexpected Binance response for ${asset}: ${JSON.stringify(data).slice(0, 200)}`);
+      return null;
+    }
+    if (data.length === 0) break;
 
     for (const row of data) {
       candles.push({
@@ -104,7 +122,7 @@ async function fetchBybitCandles(
 
     let res: Response;
     try {
-      res = await fetchWithTimeout(url, 15_000);
+      res = await fetchWithTimeout(url);
     } catch (err) {
       console.error(`[Candles] Bybit request failed for ${asset}:`, err);
       return null;
@@ -123,8 +141,12 @@ async function fetchBybitCandles(
       return null;
     }
 
-    const body = data as { retCode: number; result?: { list?: unknown[] } };
-    if (body.retCode !== 0 || !body.result?.list || body.result.list.length === 0) break;
+    const body = data as { retCode: number; retMsg?: string; result?: { list?: unknown[] } };
+    if (body.retCode !== 0) {
+      console.error(`[Candles] Bybit API error for ${asset}: retCode ${body.retCode} ${body.retMsg ?? ""}`);
+      return null;
+    }
+    if (!body.result?.list || body.result.list.length === 0) break;
 
     const rows = body.result.list as string[][];
     // Bybit returns reverse chronological — reverse to chronological
@@ -150,36 +172,142 @@ async function fetchBybitCandles(
   return candles;
 }
 
+const CANDLE_MS = 60_000;
+// Missing ranges closer than one page apart are fetched together: fewer requests, a few re-fetched candles
+const GAP_MERGE_MS = CANDLES_PER_REQUEST * CANDLE_MS;
+const SOURCE_PREFERENCE = ["binance", "bybit"];
+// A minute still empty this long after it closed is an exchange gap, not lag
+const GAP_SETTLE_MS = 60 * 60 * 1000;
+
+/** Minute-aligned [start, end) ranges in [startMs, endMs) with no cached candle and no known gap. */
+function findMissingRanges(
+  cached: Set<number>,
+  gaps: [number, number][],
+  startMs: number,
+  endMs: number
+): [number, number][] {
+  const ranges: [number, number][] = [];
+  for (let t = startMs; t < endMs; t += CANDLE_MS) {
+    if (cached.has(t) || gaps.some(([from, to]) => t >= from && t < to)) continue;
+    const last = ranges[ranges.length - 1];
+    if (last && t - last[1] < GAP_MERGE_MS) last[1] = t + CANDLE_MS;
+    else ranges.push([t, t + CANDLE_MS]);
+  }
+  return ranges;
+}
+
+/** One candle per open time, preferring Binance over Bybit where both are cached. */
+function loadCached(cache: CandleCache, asset: Asset, startMs: number, endMs: number): Candle[] {
+  const byTime = new Map<number, CandleRow>();
+  for (const row of cache.getCandles(ASSET_SYMBOLS[asset], startMs, endMs)) {
+    const existing = byTime.get(row.open_time);
+    if (!existing || SOURCE_PREFERENCE.indexOf(row.source) < SOURCE_PREFERENCE.indexOf(existing.source)) {
+      byTime.set(row.open_time, row);
+    }
+  }
+  return [...byTime.values()].map((row) => ({
+    openTime: row.open_time,
+    open: row.open,
+    high: row.high,
+    low: row.low,
+    close: row.close,
+    volume: row.volume,
+    closeTime: row.close_time,
+  }));
+}
+
+/**
+ * Download [startMs, endMs) from Binance, falling back to Bybit, and cache the closed candles.
+ * Settled minutes the exchange had nothing for are cached as gaps.
+ *
+ * The fetchers return null on any error and page until the exchange reports nothing more, so a
+ * non-null result is the exchange's answer for the whole range. Gaps are only recorded from that.
+ */
+async function fetchAndCache(cache: CandleCache, asset: Asset, startMs: number, endMs: number): Promise<number | null> {
+  // Both APIs treat the end time as inclusive
+  let source = "binance";
+  let candles = await fetchBinanceCandles(asset, startMs, endMs - 1);
+  if (!candles || candles.length === 0) {
+    console.log(`[Candles] Binance failed for ${asset}, trying Bybit...`);
+    source = "bybit";
+    candles = await fetchBybitCandles(asset, startMs, endMs - 1);
+  }
+  if (!candles) return null;
+
+  // Never cache the candle that is still open
+  const closed = candles.filter((c) => c.openTime >= startMs && c.openTime < endMs && c.closeTime < Date.now());
+  cache.insertCandles(closed.map((c) => ({
+    source,
+    symbol: ASSET_SYMBOLS[asset],
+    open_time: c.openTime,
+    open: c.open,
+    high: c.high,
+    low: c.low,
+    close: c.close,
+    volume: c.volume,
+    close_time: c.closeTime,
+  })));
+
+  const returned = new Set(closed.map((c) => c.openTime));
+  const settledEnd = Math.min(endMs, Math.floor((Date.now() - GAP_SETTLE_MS) / CANDLE_MS) * CANDLE_MS);
+  let gapStart: number | null = null;
+  for (let t = startMs; t <= settledEnd; t += CANDLE_MS) {
+    const empty = t < settledEnd && !returned.has(t);
+    if (empty && gapStart === null) gapStart = t;
+    if (!empty && gapStart !== null) {
+      cache.insertGap(ASSET_SYMBOLS[asset], gapStart, t);
+      gapStart = null;
+    }
+  }
+  return closed.length;
+}
+
+/**
+ * The last `days` of closed 1m candles for each of `assets` (callers name them; there is no
+ * all-assets default). Served from the cache; only the ranges missing from it are downloaded.
+ * With `offline`, nothing is downloaded.
+ */
 export async function fetchAllAssetCandles(
-  days: number
+  days: number,
+  assets: Asset[],
+  options: { offline?: boolean; cache: CandleCache }
 ): Promise<Map<Asset, Candle[]>> {
-  const endMs = Date.now();
+  const { cache } = options;
+  const endMs = Math.floor(Date.now() / CANDLE_MS) * CANDLE_MS; // exclude the open candle
   const startMs = endMs - days * 24 * 60 * 60 * 1000;
   const result = new Map<Asset, Candle[]>();
 
-  for (const asset of ASSETS) {
-    console.log(`[Candles] Fetching ${asset} 1m candles (${days} days)...`);
-
-    // Try Binance first
-    let candles = await fetchBinanceCandles(asset, startMs, endMs);
-
-    if (candles && candles.length > 0) {
-      console.log(`[Candles] ${asset}: ${candles.length} candles from Binance`);
-      result.set(asset, candles);
-      continue;
+  for (const asset of assets) {
+    let candles = loadCached(cache, asset, startMs, endMs);
+    const gaps = cache.getGaps(ASSET_SYMBOLS[asset], startMs, endMs);
+    const missing = findMissingRanges(new Set(candles.map((c) => c.openTime)), gaps, startMs, endMs);
+    const totalMinutes = (endMs - startMs) / CANDLE_MS;
+    const gapMinutes = gaps.reduce((sum, [from, to]) => sum + (Math.min(to, endMs) - Math.max(from, startMs)) / CANDLE_MS, 0);
+    console.log(
+      `[Candles] ${asset}: ${candles.length} cached 1m candles (${days} days), ` +
+      `${totalMinutes - candles.length - gapMinutes} minute(s) missing in ${missing.length} range(s)` +
+      (gapMinutes > 0 ? `, ${gapMinutes} known empty` : "")
+    );
+
+    if (missing.length > 0 && !options.offline) {
+      let fetched = 0;
+      for (const [from, to] of missing) {
+        const count = await fetchAndCache(cache, asset, from, to);
+        if (count === null) {
+          console.warn(`[Candles] ${asset}: could not fetch ${new Date(from).toISOString()} – ${new Date(to).toISOString()}`);
+          continue;
+        }
+        fetched += count;
+      }
+      candles = loadCached(cache, asset, startMs, endMs);
+      console.log(`[Candles] ${asset}: fetched ${fetched} candles, ${totalMinutes - candles.length} minute(s) without data`);
     }
 
-    // Fallback to Bybit
-    console.log(`[Candles] Binance failed for ${asset}, trying Bybit...`);
-    candles = await fetchBybitCandles(asset, startMs, endMs);
-
-    if (candles && candles.length > 0) {
-      console.log(`[Candles] ${asset}: ${candles.length} candles from Bybit`);
-      result.set(asset, candles);
+    if (candles.length === 0) {
+      console.warn(`[Candles] WARNING: No candle data for ${asset}, skipping`);
       continue;
     }
-
-    console.warn(`[Candles] WARNING: No candle data for ${asset}, skipping`);
+    result.set(asset, candles);
   }
 
   return result;
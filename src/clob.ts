@@ -1,19 +1,41 @@
-import { ClobClient, Side, OrderType } from "@polymarket/clob-client";
+import { ClobClient, Side, OrderType, type ApiKeyCreds } from "@polymarket/clob-client";
 import { Wallet } from "@ethersproject/wallet";
+import { insertOrder, updateOrder, insertFill, markOrderCancelled } from "./db.js";
+import { connectUserWs, type UserWsConnection } from "./ws.js";
+import { CLOB_HOST } from "./endpoints.js";
 
-const CLOB_HOST = "https://clob.polymarket.com";
 const CHAIN_ID = 137;
-const TICK_SIZE = "0.01";
-const MIN_SHARES = 5;
-const FILL_POLL_INTERVAL = 2000; // 2s between fill checks
-const MAX_FILL_POLLS = 130;      // 2s × 130 = ~4.3 min (window is 5 min)
+export const TICK_SIZE = "0.01";
+export const MIN_SHARES = 5;
+const FILL_POLL_INTERVAL = 2000;   // 2s between fill checks while the user channel is down
+const MAX_TRACK_MS = 60 * 60_000;  // 1h safety cap — window end normally aborts first
 
 let client: ClobClient | null = null;
 let walletAddress: string = "";
+let apiCreds: ApiKeyCreds | null = null;
 
-export interface FillResult {
-  fillPrice: number;
-  fillSize: number;
+// Authenticated user channel, and the pushed events waiting for each order we placed
+let userFeed: UserWsConnection | null = null;
+const pushedOrderEvents = new Map<string, any[]>();
+const orderWakers = new Map<string, () => void>();
+// Trades already recorded as fills, per tracked order — each trade is pushed and listed more than once
+const recordedTrades = new Map<string, Set<string>>();
+
+export type OrderStatus = "placed" | "partially_filled" | "filled" | "cancelled" | "expired";
+
+export interface OrderFill {
+  size: number;
+  price: number;
+  filledAt: number; // Unix ms when the fill was observed
+}
+
+export interface OrderState {
+  orderId: string;
+  status: OrderStatus;
+  originalSize: number;
+  sizeMatched: number;
+  avgPrice: number | null;
+  fills: OrderFill[];
 }
 
 export async function initClobClient(): Promise<boolean> {
@@ -36,6 +58,7 @@ export async function initClobClient(): Promise<boolean> {
 
     // Second pass: create client with signer + creds for authenticated requests
     client = new ClobClient(CLOB_HOST, CHAIN_ID, wallet, creds, sigType, funderAddress);
+    apiCreds = creds;
     console.log(`[CLOB] Client initialized for ${walletAddress}`);
     if (funderAddress) {
       console.log(`[CLOB] Using funder (proxy wallet): ${funderAddress}`);
@@ -82,6 +105,8 @@ export async function placeOrder(
     }
 
     console.log(`[CLOB] Order placed: ${resp.orderID}`);
+    insertOrder(resp.orderID, tokenId, "BUY", price, shares);
+    pushedOrderEvents.set(resp.orderID, []);
     return { orderId: resp.orderID };
   } catch (err) {
     console.error("[CLOB] Error placing order:", err);
@@ -89,45 +114,296 @@ export async function placeOrder(
   }
 }
 
-export async function waitForOrderFill(
+/** Place a limit sell for `shares` already held, e.g. to exit before resolution. */
+export async function placeSellOrder(
+  tokenId: string,
+  price: number,
+  shares: number,
+  tradeId: number
+): Promise<{ orderId: string } | null> {
+  if (!client) {
+    console.error("[CLOB] Client not initialized");
+    return null;
+  }
+
+  try {
+    const tick = parseFloat(TICK_SIZE);
+    const limit = Math.max(tick, Math.floor(price / tick + 1e-9) * tick);
+    const size = Math.floor(shares * 100) / 100;
+
+    if (size < MIN_SHARES) {
+      console.error(`[CLOB] Sell too small: ${size} shares (minimum ${MIN_SHARES})`);
+      return null;
+    }
+
+    console.log(`[CLOB] Placing limit sell @ $${limit.toFixed(2)}, ${size} shares...`);
+    const signed = await client.createOrder(
+      { tokenID: tokenId, price: limit, size, side: Side.SELL },
+      { tickSize: TICK_SIZE }
+    );
+    const resp = await client.postOrder(signed, OrderType.GTC);
+
+    if (!resp.orderID) {
+      console.error("[CLOB] Sell order failed:", resp);
+      return null;
+    }
+
+    console.log(`[CLOB] Sell order placed: ${resp.orderID}`);
+    insertOrder(resp.orderID, tokenId, "SELL", limit, size, tradeId);
+    pushedOrderEvents.set(resp.orderID, []);
+    return { orderId: resp.orderID };
+  } catch (err) {
+    console.error("[CLOB] Error placing sell order:", err);
+    return null;
+  }
+}
+
+/**
+ * Follow an order through its lifecycle until it is filled, cancelled or the
+ * abort signal fires. Every trade against the order is recorded as a fill at the price it executed.
+ * Updates come from the user channel while it's connected; the order is only
+ * polled once up front, after each match and while the socket is down.
+ * On abort the remainder is cancelled: the order ends "expired" when aborted
+ * with reason "deadline" (window end), otherwise "cancelled".
+ */
+export async function trackOrder(
   orderId: string,
-  abortSignal?: AbortSignal
-): Promise<FillResult | null> {
+  abortSignal?: AbortSignal,
+  onFill?: (state: OrderState, fill: OrderFill) => void
+): Promise<OrderState | null> {
   if (!client) return null;
 
-  for (let i = 0; i < MAX_FILL_POLLS; i++) {
+  const state: OrderState = {
+    orderId,
+    status: "placed",
+    originalSize: 0,
+    sizeMatched: 0,
+    avgPrice: null,
+    fills: [],
+  };
+
+  recordedTrades.set(orderId, new Set());
+  const finish = (status: OrderStatus) => {
+    state.status = status;
+    updateOrder(orderId, status, state.sizeMatched);
+    pushedOrderEvents.delete(orderId);
+    recordedTrades.delete(orderId);
+    return state;
+  };
+
+  const deadline = Date.now() + MAX_TRACK_MS;
+  let needsPoll = true; // confirm the starting state over REST
+  while (Date.now() < deadline) {
     if (abortSignal?.aborted) {
-      console.log("[CLOB] Fill polling aborted, cancelling order...");
+      console.log("[CLOB] Order tracking aborted, cancelling remainder...");
       await cancelAllOrders([orderId]);
-      return null;
+      // Catch anything that matched between the last update and the cancel
+      applyPushedEvents(state, onFill);
+      await pollOrder(state, onFill).catch(() => {});
+      if (state.status === "filled") return finish("filled");
+      return finish(abortSignal.reason === "deadline" ? "expired" : "cancelled");
     }
 
     try {
-      const order = await client.getOrder(orderId);
-
-      const matched = parseFloat(order.size_matched);
-      if (!isNaN(matched) && matched > 0) {
-        console.log(`[CLOB] Order filled!`);
-        return {
-          fillPrice: parseFloat(order.price),
-          fillSize: matched,
-        };
+      const pushed = applyPushedEvents(state, onFill);
+      let orderStatus = pushed.cancelled ? "CANCELLED" : null;
+      if (pushed.matched) needsPoll = true;
+
+      if (needsPoll || !userFeed?.isConnected()) {
+        orderStatus = await pollOrder(state, onFill);
+        needsPoll = false;
       }
 
-      if (order.status === "CANCELLED") {
+      if (state.status === "filled") {
+        console.log(`[CLOB] Order filled: ${state.sizeMatched} @ avg $${state.avgPrice?.toFixed(4)}`);
+        return finish("filled");
+      }
+
+      if (orderStatus === "CANCELLED") {
         console.log("[CLOB] Order cancelled externally");
-        return null;
+        return finish("cancelled");
       }
     } catch (err) {
-      console.error("[CLOB] Error polling fill status:", err);
+      console.error("[CLOB] Error polling order status:", err);
+      needsPoll = true;
     }
 
-    await sleep(FILL_POLL_INTERVAL);
+    await waitForOrderEvent(orderId, FILL_POLL_INTERVAL, abortSignal);
   }
 
-  console.log("[CLOB] Fill polling timed out, cancelling order...");
+  console.log("[CLOB] Order tracking timed out, cancelling remainder...");
   await cancelAllOrders([orderId]);
-  return null;
+  return finish("expired");
+}
+
+/**
+ * Fetch the order once and record any of its trades not seen yet. If the exchange
+ * reports the order done but some matched size has no trade to price it, that
+ * remainder is recorded at the limit price. Returns the exchange status.
+ */
+async function pollOrder(
+  state: OrderState,
+  onFill?: (state: OrderState, fill: OrderFill) => void
+): Promise<string> {
+  const order = await client!.getOrder(state.orderId);
+  const original = parseFloat(order.original_size);
+  if (!isNaN(original)) state.originalSize = original;
+
+  const seen = recordedTrades.get(state.orderId);
+  for (const tradeId of order.associate_trades ?? []) {
+    if (seen?.has(tradeId)) continue;
+    for (const trade of await client!.getTrades({ id: tradeId }, true)) {
+      recordTrade(state, trade, onFill);
+    }
+  }
+
+  const matched = parseFloat(order.size_matched);
+  const done = order.status === "MATCHED" || order.status === "CANCELLED";
+  if (done && !isNaN(matched) && matched > state.sizeMatched + 1e-9) {
+    for (const tradeId of order.associate_trades ?? []) seen?.add(tradeId);
+    const size = Math.round((matched - state.sizeMatched) * 1e6) / 1e6;
+    console.log(`[CLOB] ${size} matched shares have no trade details, recording them at the limit price`);
+    recordFill(state, size, parseFloat(order.price), onFill);
+  }
+  if (state.sizeMatched > 0) updateFillStatus(state);
+  return order.status;
+}
+
+/**
+ * Apply the user-channel events received for this order since the last call.
+ * Trade events become fills; an order update showing more matched size than
+ * the trades so far asks for a poll to fetch the missing ones.
+ */
+function applyPushedEvents(
+  state: OrderState,
+  onFill?: (state: OrderState, fill: OrderFill) => void
+): { matched: boolean; cancelled: boolean } {
+  const events = pushedOrderEvents.get(state.orderId) ?? [];
+  pushedOrderEvents.set(state.orderId, []);
+
+  const result = { matched: false, cancelled: false };
+  for (const msg of events) {
+    if (msg.event_type === "trade") {
+      recordTrade(state, msg, onFill);
+      continue;
+    }
+    const original = parseFloat(msg.original_size ?? "");
+    if (!isNaN(original)) state.originalSize = original;
+    if (parseFloat(msg.size_matched ?? "") > state.sizeMatched + 1e-9) result.matched = true;
+    if (msg.type === "CANCELLATION") result.cancelled = true;
+  }
+  return result;
+}
+
+/**
+ * Our side of a trade, pushed or fetched: as taker the trade's size and price,
+ * as a maker our order's matched amount at its price.
+ */
+function fillFromTrade(trade: any, orderId: string): { size: number; price: number } | null {
+  if (trade.taker_order_id === orderId) {
+    return { size: parseFloat(trade.size), price: parseFloat(trade.price) };
+  }
+  const maker = (trade.maker_orders ?? []).find((m: any) => m.order_id === orderId);
+  return maker ? { size: parseFloat(maker.matched_amount), price: parseFloat(maker.price) } : null;
+}
+
+/** Record a trade against the order as a fill, once per trade id. */
+function recordTrade(
+  state: OrderState,
+  trade: any,
+  onFill?: (state: OrderState, fill: OrderFill) => void
+): void {
+  const seen = recordedTrades.get(state.orderId);
+  if (!seen || seen.has(trade.id)) return;
+  const fill = fillFromTrade(trade, state.orderId);
+  if (!fill || !(fill.size > 0) || isNaN(fill.price)) return;
+  seen.add(trade.id);
+  recordFill(state, fill.size, fill.price, onFill);
+}
+
+/** Size isn't known until the first poll; until then a fill can't complete the order. */
+function updateFillStatus(state: OrderState): void {
+  state.status = state.originalSize > 0 && state.sizeMatched >= state.originalSize - 1e-9 ? "filled" : "partially_filled";
+}
+
+function recordFill(
+  state: OrderState,
+  size: number,
+  price: number,
+  onFill?: (state: OrderState, fill: OrderFill) => void
+): void {
+  const fill: OrderFill = { size, price, filledAt: Date.now() };
+  const matched = Math.round((state.sizeMatched + size) * 1e6) / 1e6;
+  const cost = (state.avgPrice ?? 0) * state.sizeMatched + size * price;
+  state.fills.push(fill);
+  state.sizeMatched = matched;
+  state.avgPrice = cost / matched;
+  updateFillStatus(state);
+
+  insertFill(state.orderId, fill.price, fill.size, fill.filledAt);
+  updateOrder(state.orderId, state.status, state.sizeMatched);
+  console.log(`[CLOB] Fill: ${fill.size} @ $${fill.price.toFixed(2)} (${state.sizeMatched}/${state.originalSize} matched)`);
+  onFill?.(state, fill);
+}
+
+/**
+ * Connect the authenticated user channel with the credentials derived in
+ * initClobClient. While it's up, trackOrder waits on pushed events instead of polling.
+ */
+export function startUserFeed(): boolean {
+  if (!apiCreds) {
+    console.error("[CLOB] Client not initialized");
+    return false;
+  }
+  if (userFeed) return true;
+
+  userFeed = connectUserWs(
+    { apiKey: apiCreds.key, secret: apiCreds.secret, passphrase: apiCreds.passphrase },
+    onUserEvent
+  );
+  return true;
+}
+
+export function stopUserFeed(): void {
+  userFeed?.close();
+  userFeed = null;
+}
+
+/** Queue a user-channel event for each of our tracked orders it concerns and wake their trackers. */
+function onUserEvent(msg: any): void {
+  const orderIds: string[] = msg.event_type === "order"
+    ? [msg.id]
+    : [msg.taker_order_id, ...(msg.maker_orders ?? []).map((m: any) => m.order_id)];
+
+  for (const id of orderIds) {
+    const queue = pushedOrderEvents.get(id);
+    if (!queue) continue; // not an order we placed this session
+
+    if (msg.event_type === "trade") {
+      // Each trade is reported again as it's mined and confirmed — only the match matters here
+      if (msg.status !== "MATCHED") continue;
+      console.log(`[CLOB] Order ${id.slice(0, 10)}... matched in trade ${msg.id}`);
+    }
+    queue.push(msg);
+    orderWakers.get(id)?.();
+  }
+}
+
+/** Sleep until a user-channel event for this order arrives, `ms` passes or the signal aborts. */
+function waitForOrderEvent(orderId: string, ms: number, abortSignal?: AbortSignal): Promise<void> {
+  if ((pushedOrderEvents.get(orderId)?.length ?? 0) > 0) return Promise.resolve();
+
+  return new Promise((resolve) => {
+    const wake = () => {
+      clearTimeout(timer);
+      orderWakers.delete(orderId);
+      abortSignal?.removeEventListener("abort", wake);
+      resolve();
+    };
+    const timer = setTimeout(wake, ms);
+    orderWakers.set(orderId, wake);
+    abortSignal?.addEventListener("abort", wake, { once: true });
+  });
 }
 
 export async function cancelAllOrders(orderIds: string[]): Promise<void> {
@@ -136,6 +412,7 @@ export async function cancelAllOrders(orderIds: string[]): Promise<void> {
   for (const id of orderIds) {
     try {
       await client.cancelOrder({ orderID: id });
+      markOrderCancelled(id);
       console.log(`[CLOB] Cancelled order ${id}`);
     } catch (err) {
       // Order may already be filled/cancelled — not critical
@@ -143,7 +420,3 @@ export async function cancelAllOrders(orderIds: string[]): Promise<void> {
     }
   }
 }
-
-function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
-}
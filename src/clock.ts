@@ -0,0 +1,30 @@
+// Wall clock by default; replay pins it to the receive time of each recorded event
+let virtualNow: number | null = null;
+
+/** Current time in Unix ms — use instead of Date.now() in trading code. */
+export function now(): number {
+  return virtualNow ?? Date.now();
+}
+
+export function setVirtualTime(ms: number): void {
+  virtualNow = ms;
+}
+
+export function useRealTime(): void {
+  virtualNow = null;
+}
+
+/** Format a Unix ms timestamp the way SQLite's datetime() does: "YYYY-MM-DD HH:MM:SS" (UTC). */
+export function toSqlDateTime(ms: number): string {
+  return new Date(ms).toISOString().slice(0, 19).replace("T", " ");
+}
+
+/** Parse a time flag such as --from or --since: ISO date, Unix seconds or Unix ms. */
+export function parseTime(value: string): number | null {
+  if (/^\d+$/.test(value)) {
+    const n = parseInt(value, 10);
+    return n < 1e12 ? n * 1000 : n;
+  }
+  const ms = Date.parse(value);
+  return isNaN(ms) ? null : ms;
+}
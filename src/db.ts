@@ -1,36 +1,28 @@
 import Database from "better-sqlite3";
 import path from "node:path";
+import { now, toSqlDateTime } from "./clock.js";
+import { migrate } from "./migrations.js";
+import type { CandleCache } from "./candles.js";
 
-const DB_PATH = path.join(process.cwd(), "trades.db");
+// --replay writes to its own database so replayed trades never mix with real paper trades
+const dbIdx = process.argv.indexOf("--db");
+export const DB_PATH = dbIdx !== -1
+  ? path.resolve(process.argv[dbIdx + 1])
+  : path.join(process.cwd(), process.argv.includes("--replay") ? "replay.db" : "trades.db");
 
 const db = new Database(DB_PATH);
 db.pragma("journal_mode = WAL");
 
-db.exec(`
-  CREATE TABLE IF NOT EXISTS trades (
-    id INTEGER PRIMARY KEY AUTOINCREMENT,
-    market_slug TEXT NOT NULL,
-    condition_id TEXT NOT NULL,
-    token_id TEXT NOT NULL,
-    side TEXT NOT NULL,
-    buy_price REAL NOT NULL,
-    outcome TEXT,
-    payout REAL,
-    profit REAL,
-    created_at TEXT DEFAULT (datetime('now')),
-    resolved_at TEXT
-  )
-`);
-
-// Idempotent migrations for live trading columns
-const migrations = [
-  "ALTER TABLE trades ADD COLUMN order_id TEXT",
-  "ALTER TABLE trades ADD COLUMN cancel_order_id TEXT",
-  "ALTER TABLE trades ADD COLUMN mode TEXT NOT NULL DEFAULT 'paper'",
-  "ALTER TABLE trades ADD COLUMN size REAL NOT NULL DEFAULT 1.0",
-];
-for (const sql of migrations) {
-  try { db.exec(sql); } catch { /* column already exists */ }
+// Bring the schema up to date; a database from newer code is refused rather than misread
+try {
+  const { from, to, backupPath } = migrate(db, DB_PATH);
+  if (to > from) {
+    console.log(`[DB] Migrated ${path.basename(DB_PATH)} from schema v${from} to v${to}` +
+      (backupPath ? ` (backup: ${path.basename(backupPath)})` : ""));
+  }
+} catch (err) {
+  console.error(`[DB] ${(err as Error).message}`);
+  process.exit(1);
 }
 
 export interface Trade {
@@ -48,28 +40,56 @@ export interface Trade {
   order_id: string | null;
   cancel_order_id: string | null;
   mode: string;
-  size: number;
+  size: number;              // shares filled
+  strategy_id: string;
+  requested_size: number | null; // shares the paper fill asked for
+  signal_price: number | null;   // price that triggered the entry, before slippage
+  exit_price: number | null;     // set when sold before resolution
+  exit_time: string | null;
+  exit_reason: string | null;    // take_profit | stop_loss | time
+  resolve_attempts: number;      // stale-trade sweeper lookups that found no result
+  next_resolve_at: string | null; // sweeper backoff: don't look again before this
+  timeout_reason: string | null; // why the sweeper gave up (outcome = "timeout")
+  run_id: number | null;         // the run that placed it; null for trades from before runs were recorded
+  realized_profit: number;       // from partial exit sells; `size` is what's still held
 }
 
+// Every trade inserted by this process is stamped with the run started at boot
+let currentRunId: number | null = null;
+
 const insertStmt = db.prepare(`
-  INSERT INTO trades (market_slug, condition_id, token_id, side, buy_price)
-  VALUES (?, ?, ?, ?, ?)
+  INSERT INTO trades (
+    market_slug, condition_id, token_id, side, buy_price, strategy_id,
+    size, requested_size, signal_price, created_at, run_id
+  )
+  VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
 `);
 
+/** Record a paper trade. `buyPrice` is the average simulated fill price. */
 export function insertTrade(
   marketSlug: string,
   conditionId: string,
   tokenId: string,
   side: string,
-  buyPrice: number
+  buyPrice: number,
+  strategyId: string,
+  size: number,
+  requestedSize: number,
+  signalPrice: number
 ): number {
-  const result = insertStmt.run(marketSlug, conditionId, tokenId, side, buyPrice);
+  const result = insertStmt.run(
+    marketSlug, conditionId, tokenId, side, buyPrice, strategyId,
+    size, requestedSize, signalPrice, toSqlDateTime(now()), currentRunId
+  );
   return result.lastInsertRowid as number;
 }
 
 const insertLiveStmt = db.prepare(`
-  INSERT INTO trades (market_slug, condition_id, token_id, side, buy_price, order_id, cancel_order_id, mode, size)
-  VALUES (?, ?, ?, ?, ?, ?, ?, 'live', ?)
+  INSERT INTO trades (
+    market_slug, condition_id, token_id, side, buy_price, order_id, cancel_order_id, mode, size, strategy_id,
+    created_at, run_id
+  )
+  VALUES (?, ?, ?, ?, ?, ?, ?, 'live', ?, ?, ?, ?)
 `);
 
 export function insertLiveTrade(
@@ -80,33 +100,97 @@ export function insertLiveTrade(
   buyPrice: number,
   orderId: string,
   cancelOrderId: string,
-  size: number
+  size: number,
+  strategyId: string
 ): number {
   const result = insertLiveStmt.run(
-    marketSlug, conditionId, tokenId, side, buyPrice, orderId, cancelOrderId, size
+    marketSlug, conditionId, tokenId, side, buyPrice, orderId, cancelOrderId, size, strategyId,
+    toSqlDateTime(now()), currentRunId
   );
   return result.lastInsertRowid as number;
 }
 
 const resolveStmt = db.prepare(`
   UPDATE trades
-  SET outcome = ?, payout = ?, profit = (? - buy_price) * size, resolved_at = datetime('now')
+  SET outcome = ?, payout = ?, profit = (? - buy_price) * size + realized_profit, resolved_at = ?
   WHERE id = ?
 `);
 
 export function resolveTrade(id: number, outcome: "win" | "lose"): void {
   const payout = outcome === "win" ? 1.0 : 0.0;
-  resolveStmt.run(outcome, payout, payout, id);
+  resolveStmt.run(outcome, payout, payout, toSqlDateTime(now()), id);
+}
+
+const exitStmt = db.prepare(`
+  UPDATE trades
+  SET outcome = ?, payout = ?, profit = (? - buy_price) * size + realized_profit,
+      exit_price = ?, exit_time = ?, exit_reason = ?, resolved_at = ?
+  WHERE id = ? AND outcome IS NULL
+`);
+
+/**
+ * Close a trade that was sold before resolution. Outcome follows the sign of the profit;
+ * selling at exactly the entry price is "flat", neither a win nor a loss.
+ */
+export function exitTrade(id: number, exitPrice: number, buyPrice: number, reason: string): void {
+  const outcome = exitPrice > buyPrice ? "win" : exitPrice < buyPrice ? "lose" : "flat";
+  const ts = toSqlDateTime(now());
+  exitStmt.run(outcome, exitPrice, exitPrice, exitPrice, ts, reason, ts, id);
+}
+
+const partialExitStmt = db.prepare(`
+  UPDATE trades
+  SET size = size - ?, realized_profit = realized_profit + (? - buy_price) * ?,
+      exit_price = ?, exit_time = ?, exit_reason = ?
+  WHERE id = ? AND outcome IS NULL
+`);
+
+/** Book an exit sell that filled only `shares` of the position; the rest stays open to resolution. */
+export function partialExitTrade(id: number, shares: number, exitPrice: number, reason: string): void {
+  partialExitStmt.run(shares, exitPrice, shares, exitPrice, toSqlDateTime(now()), reason, id);
 }
 
 const openTradesStmt = db.prepare(`
   SELECT * FROM trades
   WHERE outcome IS NULL
-    AND created_at > datetime('now', '-1 hour')
+    AND created_at > ?
 `);
 
 export function getOpenTrades(): Trade[] {
-  return openTradesStmt.all() as Trade[];
+  return openTradesStmt.all(toSqlDateTime(now() - 60 * 60 * 1000)) as Trade[];
+}
+
+const staleTradesStmt = db.prepare(`
+  SELECT * FROM trades
+  WHERE outcome IS NULL
+    AND created_at <= ?
+    AND (next_resolve_at IS NULL OR next_resolve_at <= ?)
+  ORDER BY created_at
+`);
+
+/** Unresolved trades older than `ageMs` whose sweeper backoff has expired. */
+export function getStaleOpenTrades(ageMs: number): Trade[] {
+  const ts = now();
+  return staleTradesStmt.all(toSqlDateTime(ts - ageMs), toSqlDateTime(ts)) as Trade[];
+}
+
+const deferResolutionStmt = db.prepare(`
+  UPDATE trades SET resolve_attempts = resolve_attempts + 1, next_resolve_at = ? WHERE id = ?
+`);
+
+/** Count a failed resolution lookup and don't retry before `retryAt`. */
+export function deferTradeResolution(id: number, retryAt: number): void {
+  deferResolutionStmt.run(toSqlDateTime(retryAt), id);
+}
+
+const timeoutStmt = db.prepare(`
+  UPDATE trades SET outcome = 'timeout', timeout_reason = ?, resolved_at = ?
+  WHERE id = ? AND outcome IS NULL
+`);
+
+/** Give up on a trade whose market never reported a result. Payout and profit stay unknown (NULL). */
+export function timeoutTrade(id: number, reason: string): void {
+  timeoutStmt.run(reason, toSqlDateTime(now()), id);
 }
 
 const tradesBySlugStmt = db.prepare(`
@@ -117,7 +201,39 @@ export function getTradesBySlug(slug: string): Trade[] {
   return tradesBySlugStmt.all(slug) as Trade[];
 }
 
-export function getTradeStats(): {
+export interface TradeFilter {
+  since?: number; // Unix ms, inclusive, on created_at
+  until?: number; // Unix ms, exclusive
+  mode?: "paper" | "live";
+  slugPrefix?: string;
+}
+
+/** Trades matching the filter, newest first. */
+export function getTrades(filter: TradeFilter = {}): Trade[] {
+  const where: string[] = [];
+  const params: (string | number)[] = [];
+  if (filter.since !== undefined) {
+    where.push("created_at >= ?");
+    params.push(toSqlDateTime(filter.since));
+  }
+  if (filter.until !== undefined) {
+    where.push("created_at < ?");
+    params.push(toSqlDateTime(filter.until));
+  }
+  if (filter.mode !== undefined) {
+    where.push("mode = ?");
+    params.push(filter.mode);
+  }
+  if (filter.slugPrefix !== undefined) {
+    where.push("substr(market_slug, 1, ?) = ?");
+    params.push(filter.slugPrefix.length, filter.slugPrefix);
+  }
+  return db.prepare(`
+    SELECT * FROM trades ${where.length > 0 ? `WHERE ${where.join(" AND ")}` : ""} ORDER BY created_at DESC, id DESC
+  `).all(...params) as Trade[];
+}
+
+export function getTradeStats(filter: TradeFilter = {}): {
   total: number;
   wins: number;
   losses: number;
@@ -128,7 +244,7 @@ export function getTradeStats(): {
   avgLoss: number | null;
   trades: Trade[];
 } {
-  const all = db.prepare("SELECT * FROM trades ORDER BY created_at DESC").all() as Trade[];
+  const all = getTrades(filter);
   const winTrades = all.filter((t) => t.outcome === "win");
   const loseTrades = all.filter((t) => t.outcome === "lose");
   const pending = all.filter((t) => t.outcome === null).length;
@@ -154,6 +270,444 @@ export function getTradeStats(): {
   };
 }
 
+export interface RecordedMarket {
+  slug: string;
+  condition_id: string;
+  up_token_id: string;
+  down_token_id: string;
+  end_time: number;    // Unix ms
+  recorded_at: number; // Unix ms
+}
+
+export interface MarketEvent {
+  id: number;
+  received_at: number; // Unix ms
+  market_slug: string;
+  token_id: string;
+  event_type: string;
+  payload: string;     // raw JSON
+}
+
+const insertRecordedMarketStmt = db.prepare(`
+  INSERT OR IGNORE INTO recorded_markets (slug, condition_id, up_token_id, down_token_id, end_time, recorded_at)
+  VALUES (?, ?, ?, ?, ?, ?)
+`);
+
+export function insertRecordedMarket(market: Omit<RecordedMarket, "recorded_at">): void {
+  insertRecordedMarketStmt.run(
+    market.slug, market.condition_id, market.up_token_id, market.down_token_id, market.end_time, Date.now()
+  );
+}
+
+const insertMarketEventStmt = db.prepare(`
+  INSERT INTO market_events (received_at, market_slug, token_id, event_type, payload)
+  VALUES (?, ?, ?, ?, ?)
+`);
+
+/** Insert a batch of events in a single transaction. */
+export const insertMarketEvents = db.transaction((events: Omit<MarketEvent, "id">[]) => {
+  for (const e of events) {
+    insertMarketEventStmt.run(e.received_at, e.market_slug, e.token_id, e.event_type, e.payload);
+  }
+});
+
+/** Trades not placed by a replay run: real paper/live history that replay must never touch. */
+export function countNonReplayTrades(): number {
+  const { n } = db.prepare(`
+    SELECT COUNT(*) AS n FROM trades
+    WHERE run_id IS NULL OR run_id NOT IN (SELECT id FROM runs WHERE mode = 'replay')
+  `).get() as { n: number };
+  return n;
+}
+
+/** Delete trades from earlier replay runs, leaving the current run's alone. */
+export function clearReplayTrades(): number {
+  return db.prepare(`
+    DELETE FROM trades
+    WHERE run_id IN (SELECT id FROM runs WHERE mode = 'replay') AND run_id IS NOT ?
+  `).run(currentRunId).changes;
+}
+
+export interface OrderRow {
+  id: string;
+  trade_id: number | null;
+  token_id: string;
+  side: string;   // BUY | SELL
+  price: number;  // limit price
+  size: number;   // shares ordered
+  size_matched: number;
+  status: string; // placed | partially_filled | filled | cancelled | expired
+  created_at: string;
+  updated_at: string;
+}
+
+export interface FillRow {
+  id: number;
+  order_id: string;
+  trade_id: number | null;
+  price: number;
+  size: number;
+  filled_at: number; // Unix ms
+}
+
+const insertOrderStmt = db.prepare(`
+  INSERT INTO orders (id, trade_id, token_id, side, price, size, status, created_at, updated_at)
+  VALUES (?, ?, ?, ?, ?, ?, 'placed', ?, ?)
+`);
+
+export function insertOrder(
+  orderId: string,
+  tokenId: string,
+  side: "BUY" | "SELL",
+  price: number,
+  size: number,
+  tradeId: number | null = null
+): void {
+  const ts = toSqlDateTime(now());
+  insertOrderStmt.run(orderId, tradeId, tokenId, side, price, size, ts, ts);
+}
+
+const updateOrderStmt = db.prepare(`
+  UPDATE orders SET status = ?, size_matched = ?, updated_at = ? WHERE id = ?
+`);
+
+export function updateOrder(orderId: string, status: string, sizeMatched: number): void {
+  updateOrderStmt.run(status, sizeMatched, toSqlDateTime(now()), orderId);
+}
+
+const cancelOrderStmt = db.prepare(`
+  UPDATE orders SET status = 'cancelled', updated_at = ?
+  WHERE id = ? AND status IN ('placed', 'partially_filled')
+`);
+
+/** Mark a still-open order cancelled. Terminal orders are left as they are. */
+export function markOrderCancelled(orderId: string): void {
+  cancelOrderStmt.run(toSqlDateTime(now()), orderId);
+}
+
+const insertFillStmt = db.prepare(`
+  INSERT INTO fills (order_id, trade_id, price, size, filled_at)
+  VALUES (?, (SELECT trade_id FROM orders WHERE id = ?), ?, ?, ?)
+`);
+
+export function insertFill(orderId: string, price: number, size: number, filledAt: number): void {
+  insertFillStmt.run(orderId, orderId, price, size, filledAt);
+}
+
+/** Attach an order (and the fills recorded so far) to the trade it opened. */
+export const linkOrderToTrade = db.transaction((orderId: string, tradeId: number) => {
+  db.prepare("UPDATE orders SET trade_id = ? WHERE id = ?").run(tradeId, orderId);
+  db.prepare("UPDATE fills SET trade_id = ? WHERE order_id = ?").run(tradeId, orderId);
+});
+
+const updateLiveFillStmt = db.prepare(`
+  UPDATE trades SET buy_price = ?, size = ? WHERE id = ? AND outcome IS NULL
+`);
+
+/** Update a live trade's average price and size as more of its order fills. */
+export function updateLiveTradeFill(tradeId: number, avgPrice: number, size: number): void {
+  updateLiveFillStmt.run(avgPrice, size, tradeId);
+}
+
+export function getOrdersForTrade(tradeId: number): OrderRow[] {
+  return db.prepare("SELECT * FROM orders WHERE trade_id = ? ORDER BY created_at").all(tradeId) as OrderRow[];
+}
+
+export function getFillsForTrade(tradeId: number): FillRow[] {
+  return db.prepare("SELECT * FROM fills WHERE trade_id = ? ORDER BY filled_at").all(tradeId) as FillRow[];
+}
+
+export interface RiskHalt {
+  id: number;
+  kind: string; // daily_loss | consecutive_losses | kill_switch | reset
+  reason: string;
+  created_at: string;
+  expires_at: string | null;
+  cleared_at: string | null;
+}
+
+const insertRiskHaltStmt = db.prepare(`
+  INSERT INTO risk_halts (kind, reason, created_at, expires_at) VALUES (?, ?, ?, ?)
+`);
+
+export function insertRiskHalt(kind: string, reason: string, expiresAt: string | null): number {
+  return insertRiskHaltStmt.run(kind, reason, toSqlDateTime(now()), expiresAt).lastInsertRowid as number;
+}
+
+const activeRiskHaltsStmt = db.prepare(`
+  SELECT * FROM risk_halts
+  WHERE kind != 'reset' AND cleared_at IS NULL AND (expires_at IS NULL OR expires_at > ?)
+  ORDER BY created_at
+`);
+
+export function getActiveRiskHalts(): RiskHalt[] {
+  return activeRiskHaltsStmt.all(toSqlDateTime(now())) as RiskHalt[];
+}
+
+const recentRiskHaltsStmt = db.prepare(`
+  SELECT * FROM risk_halts ORDER BY id DESC LIMIT ?
+`);
+
+export function getRecentRiskHalts(limit = 10): RiskHalt[] {
+  return recentRiskHaltsStmt.all(limit) as RiskHalt[];
+}
+
+export function clearRiskHalts(kind?: string): number {
+  const ts = toSqlDateTime(now());
+  const result = kind
+    ? db.prepare("UPDATE risk_halts SET cleared_at = ? WHERE cleared_at IS NULL AND kind = ?").run(ts, kind)
+    : db.prepare("UPDATE risk_halts SET cleared_at = ? WHERE cleared_at IS NULL AND kind != 'reset'").run(ts);
+  return result.changes;
+}
+
+export interface LiveRiskSnapshot {
+  dailyPnL: number;          // realized on live trades resolved since 00:00 UTC
+  consecutiveLosses: number; // trailing losses since the last risk reset
+  openExposure: number;      // cost of unresolved live trades
+  ordersLastHour: number;   // live entry orders placed in the last hour, filled or not
+}
+
+export function getLiveRiskSnapshot(): LiveRiskSnapshot {
+  const nowMs = now();
+  const dayStart = toSqlDateTime(Math.floor(nowMs / 86_400_000) * 86_400_000);
+  const hourAgo = toSqlDateTime(nowMs - 60 * 60 * 1000);
+
+  const daily = db.prepare(`
+    SELECT COALESCE(SUM(profit), 0) AS pnl FROM trades
+    WHERE mode = 'live' AND outcome IS NOT NULL AND resolved_at >= ?
+  `).get(dayStart) as { pnl: number };
+
+  const lastReset = db.prepare(`
+    SELECT MAX(created_at) AS ts FROM risk_halts WHERE kind = 'reset'
+  `).get() as { ts: string | null };
+
+  const recent = db.prepare(`
+    SELECT outcome FROM trades
+    WHERE mode = 'live' AND outcome IN ('win', 'lose', 'flat') AND resolved_at > ?
+    ORDER BY resolved_at DESC, id DESC
+  `).all(lastReset.ts ?? "") as { outcome: string }[];
+  let consecutiveLosses = 0;
+  for (const r of recent) {
+    if (r.outcome !== "lose") break;
+    consecutiveLosses++;
+  }
+
+  const exposure = db.prepare(`
+    SELECT COALESCE(SUM(buy_price * size), 0) AS cost FROM trades
+    WHERE mode = 'live' AND outcome IS NULL
+  `).get() as { cost: number };
+
+  // Orders rather than trades, so orders still resting or cancelled unfilled count against the cap
+  const hourly = db.prepare(`
+    SELECT COUNT(*) AS n FROM orders WHERE side = 'BUY' AND created_at > ?
+  `).get(hourAgo) as { n: number };
+
+  return {
+    dailyPnL: daily.pnl,
+    consecutiveLosses,
+    openExposure: exposure.cost,
+    ordersLastHour: hourly.n,
+  };
+}
+
+export interface SweepRow {
+  id: number;
+  created_at: string;
+  duration: string;
+  assets: string;   // comma-separated
+  candle_days: number;
+  ranges: string;   // JSON of the ranges swept
+  combinations: number;
+}
+
+export interface SweepResultRow {
+  sweep_id: number;
+  asset: string;
+  buy_price: number;
+  lookahead_candles: number;
+  min_move: number;
+  hours: string; // filter label, e.g. "all" or "8-16"
+  days: string;
+  trades: number;
+  wins: number;
+  win_rate: number;
+  total_profit: number;
+  max_drawdown: number;
+  max_consecutive_losses: number;
+}
+
+const insertSweepStmt = db.prepare(`
+  INSERT INTO sweeps (created_at, duration, assets, candle_days, ranges, combinations)
+  VALUES (?, ?, ?, ?, ?, ?)
+`);
+
+const insertSweepResultStmt = db.prepare(`
+  INSERT INTO sweep_results (
+    sweep_id, asset, buy_price, lookahead_candles, min_move, hours, days,
+    trades, wins, win_rate, total_profit, max_drawdown, max_consecutive_losses
+  ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+`);
+
+/** Save a sweep and all of its results in one transaction. Returns the sweep id. */
+export const insertSweep = db.transaction((
+  sweep: Omit<SweepRow, "id" | "created_at">,
+  results: Omit<SweepResultRow, "sweep_id">[]
+): number => {
+  const sweepId = Number(insertSweepStmt.run(
+    toSqlDateTime(now()),
+    sweep.duration,
+    sweep.assets,
+    sweep.candle_days,
+    sweep.ranges,
+    sweep.combinations
+  ).lastInsertRowid);
+
+  for (const r of results) {
+    insertSweepResultStmt.run(
+      sweepId, r.asset, r.buy_price, r.lookahead_candles, r.min_move, r.hours, r.days,
+      r.trades, r.wins, r.win_rate, r.total_profit, r.max_drawdown, r.max_consecutive_losses
+    );
+  }
+  return sweepId;
+});
+
+/** The most recent sweeps, each with its best result by total P&L. */
+export function getRecentSweeps(limit = 5): (SweepRow & { best: SweepResultRow | null })[] {
+  const sweeps = db.prepare("SELECT * FROM sweeps ORDER BY id DESC LIMIT ?").all(limit) as SweepRow[];
+  const bestStmt = db.prepare(`
+    SELECT * FROM sweep_results WHERE sweep_id = ?
+    ORDER BY total_profit DESC, win_rate DESC, max_drawdown ASC LIMIT 1
+  `);
+  return sweeps.map((s) => ({ ...s, best: (bestStmt.get(s.id) as SweepResultRow | undefined) ?? null }));
+}
+
+export interface CandleRow {
+  source: string; // "binance" | "bybit"
+  symbol: string;
+  open_time: number; // Unix ms
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+  close_time: number; // Unix ms
+}
+
+const insertCandleStmt = db.prepare(`
+  INSERT OR REPLACE INTO candles (source, symbol, open_time, open, high, low, close, volume, close_time)
+  VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+`);
+
+/** Cache a batch of candles in a single transaction; re-fetched candles overwrite. */
+export const insertCandles = db.transaction((rows: CandleRow[]) => {
+  for (const c of rows) {
+    insertCandleStmt.run(c.source, c.symbol, c.open_time, c.open, c.high, c.low, c.close, c.volume, c.close_time);
+  }
+});
+
+/** Cached candles for a symbol from every source, ordered by open time, in [startMs, endMs). */
+export function getCachedCandles(symbol: string, startMs: number, endMs: number): CandleRow[] {
+  return db.prepare(`
+    SELECT * FROM candles WHERE symbol = ? AND open_time >= ? AND open_time < ? ORDER BY open_time
+  `).all(symbol, startMs, endMs) as CandleRow[];
+}
+
+const insertCandleGapStmt = db.prepare(`
+  INSERT OR REPLACE INTO candle_gaps (symbol, start_time, end_time, checked_at) VALUES (?, ?, ?, ?)
+`);
+
+/** Remember that the exchanges have no candles for [startMs, endMs). */
+export function insertCandleGap(symbol: string, startMs: number, endMs: number): void {
+  insertCandleGapStmt.run(symbol, startMs, endMs, Date.now());
+}
+
+/** Known-empty ranges overlapping [startMs, endMs), as [start, end) pairs. */
+export function getCandleGaps(symbol: string, startMs: number, endMs: number): [number, number][] {
+  const rows = db.prepare(`
+    SELECT start_time, end_time FROM candle_gaps WHERE symbol = ? AND end_time > ? AND start_time < ?
+  `).all(symbol, startMs, endMs) as { start_time: number; end_time: number }[];
+  return rows.map((r) => [r.start_time, r.end_time]);
+}
+
+/** The SQLite candle cache, for fetchAllAssetCandles. */
+export const candleCache: CandleCache = {
+  getCandles: getCachedCandles,
+  insertCandles,
+  getGaps: getCandleGaps,
+  insertGap: insertCandleGap,
+};
+
+export interface ResolutionRow {
+  slug: string;
+  asset: string;
+  duration: string;
+  start_time: number; // Unix ms
+  end_time: number;   // Unix ms
+  outcome: "Up" | "Down" | null; // null = not resolved when harvested
+  start_price: number | null;
+  end_price: number | null;
+  up_price: number | null;
+  down_price: number | null;
+  harvested_at: number;
+}
+
+const upsertResolutionStmt = db.prepare(`
+  INSERT OR REPLACE INTO market_resolutions (
+    slug, asset, duration, start_time, end_time, outcome, start_price, end_price, up_price, down_price, harvested_at
+  ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+`);
+
+export function upsertResolution(r: ResolutionRow): void {
+  upsertResolutionStmt.run(
+    r.slug, r.asset, r.duration, r.start_time, r.end_time, r.outcome,
+    r.start_price, r.end_price, r.up_price, r.down_price, r.harvested_at
+  );
+}
+
+/** Harvested resolutions for a series with start times in [startMs, endMs), oldest first. */
+export function getResolutions(asset: string, duration: string, startMs: number, endMs: number): ResolutionRow[] {
+  return db.prepare(`
+    SELECT * FROM market_resolutions
+    WHERE asset = ? AND duration = ? AND start_time >= ? AND start_time < ?
+    ORDER BY start_time
+  `).all(asset, duration, startMs, endMs) as ResolutionRow[];
+}
+
+export interface RunRow {
+  id: number;
+  mode: string;       // paper | live | replay
+  started_at: string; // wall-clock UTC, even for replays
+  stopped_at: string | null;  // null while running, or if the process died without cleanup
+  stop_reason: string | null; // sigint | risk_halt | finished | error: ...
+  host: string;
+  pid: number;
+  code_version: string | null; // git commit, when run from a checkout
+  argv: string;   // JSON array of CLI arguments
+  config: string; // JSON snapshot of the strategy parameters
+}
+
+/** Record the start of a run; trades inserted from now on are linked to it. Returns the run id. */
+export function startRun(run: Omit<RunRow, "id" | "started_at" | "stopped_at" | "stop_reason">): number {
+  currentRunId = Number(db.prepare(`
+    INSERT INTO runs (mode, started_at, host, pid, code_version, argv, config)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `).run(run.mode, toSqlDateTime(Date.now()), run.host, run.pid, run.code_version, run.argv, run.config)
+    .lastInsertRowid);
+  return currentRunId;
+}
+
+/** Close the current run with the reason the process is exiting. Later calls are ignored. */
+export function stopRun(reason: string): void {
+  if (currentRunId === null || !db.open) return;
+  db.prepare("UPDATE runs SET stopped_at = ?, stop_reason = ? WHERE id = ? AND stopped_at IS NULL")
+    .run(toSqlDateTime(Date.now()), reason, currentRunId);
+  currentRunId = null;
+}
+
+export function getRuns(): RunRow[] {
+  return db.prepare("SELECT * FROM runs ORDER BY id").all() as RunRow[];
+}
+
 export function closeDb(): void {
   db.close();
 }
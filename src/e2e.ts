@@ -0,0 +1,117 @@
+/**
+ * End-to-end check of the paper loop against the mock server's "resolve" scenario:
+ * starts the mock and the paper trader on a throwaway database, and passes once the
+ * trader has bought Up and the trade has resolved as a win.
+ *
+ *   npm run e2e
+ *
+ * Takes up to one 5m window plus resolution, a few minutes at most.
+ */
+import { spawn, type ChildProcess } from "node:child_process";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import Database from "better-sqlite3";
+
+const DEADLINE_MS = 10 * 60 * 1000; // a full window, its resolution and some slack
+const POLL_MS = 2000;
+
+const port = 18_000 + Math.floor(Math.random() * 1000);
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), "poly-e2e-"));
+const dbPath = path.join(dir, "e2e.db");
+const children: ChildProcess[] = [];
+
+function run(script: string, args: string[], env: NodeJS.ProcessEnv = {}): ChildProcess {
+  const child = spawn(process.execPath, ["--import", "tsx", path.join("src", script), ...args], {
+    env: { ...process.env, ...env },
+    stdio: ["ignore", "pipe", "pipe"],
+  });
+  const prefix = `[${script.replace(/\.ts$/, "")}] `;
+  for (const stream of [child.stdout!, child.stderr!]) {
+    stream.on("data", (chunk: Buffer) => {
+      for (const line of chunk.toString().split("\n")) {
+        if (line.trim()) console.log(prefix + line);
+      }
+    });
+  }
+  children.push(child);
+  return child;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+interface TradeRow {
+  id: number;
+  side: string;
+  outcome: string | null;
+  profit: number | null;
+}
+
+function readTrades(): TradeRow[] {
+  if (!fs.existsSync(dbPath)) return [];
+  const db = new Database(dbPath, { readonly: true, fileMustExist: true });
+  try {
+    return db.prepare("SELECT id, side, outcome, profit FROM trades ORDER BY id").all() as TradeRow[];
+  } catch {
+    return []; // not migrated yet
+  } finally {
+    db.close();
+  }
+}
+
+async function waitForResolvedTrade(): Promise<TradeRow | null> {
+  const deadline = Date.now() + DEADLINE_MS;
+  while (Date.now() < deadline) {
+    const resolved = readTrades().find((t) => t.outcome !== null);
+    if (resolved) return resolved;
+    if (children.some((c) => c.exitCode !== null)) return null;
+    await sleep(POLL_MS);
+  }
+  return null;
+}
+
+async function stopAll(): Promise<void> {
+  for (const child of children) {
+    if (child.exitCode === null) child.kill("SIGINT");
+  }
+  await sleep(2000);
+  for (const child of children) {
+    if (child.exitCode === null) child.kill("SIGKILL");
+  }
+}
+
+async function main(): Promise<boolean> {
+  run("mockserver.ts", ["--scenario", "resolve", "--port", String(port)]);
+  await sleep(3000);
+  run("index.ts", ["--series", "xrp-5m", "--db", dbPath], {
+    POLY_GAMMA_URL: `http://localhost:${port}`,
+    POLY_CLOB_URL: `http://localhost:${port}`,
+    POLY_WS_URL: `ws://localhost:${port}/ws`,
+  });
+
+  const trade = await waitForResolvedTrade();
+  if (!trade) {
+    console.error(`\n[E2E] FAIL: no resolved trade within ${DEADLINE_MS / 60_000} minutes`);
+    return false;
+  }
+  // "resolve" always settles Up, and Up is the side whose bid climbs into the band
+  if (trade.side !== "Up" || trade.outcome !== "win" || !(trade.profit! > 0)) {
+    console.error(`\n[E2E] FAIL: expected a winning Up trade, got ${JSON.stringify(trade)}`);
+    return false;
+  }
+  console.log(`\n[E2E] PASS: trade #${trade.id} bought Up and resolved as a win (+$${trade.profit!.toFixed(2)})`);
+  return true;
+}
+
+main()
+  .catch((err) => {
+    console.error("[E2E] FAIL:", err);
+    return false;
+  })
+  .then(async (passed) => {
+    await stopAll();
+    fs.rmSync(dir, { recursive: true, force: true });
+    process.exit(passed ? 0 : 1);
+  });
@@ -0,0 +1,12 @@
+// Polymarket hosts. Override with POLY_GAMMA_URL, POLY_CLOB_URL and POLY_WS_URL
+// (e.g. in .env) to run against a local stand-in such as `npm run mock`.
+export const GAMMA_API = trimSlash(process.env.POLY_GAMMA_URL ?? "https://gamma-api.polymarket.com");
+export const CLOB_HOST = trimSlash(process.env.POLY_CLOB_URL ?? "https://clob.polymarket.com");
+
+const WS_BASE = trimSlash(process.env.POLY_WS_URL ?? "wss://ws-subscriptions-clob.polymarket.com/ws");
+export const MARKET_WS_URL = `${WS_BASE}/market`;
+export const USER_WS_URL = `${WS_BASE}/user`;
+
+function trimSlash(url: string): string {
+  return url.replace(/\/+$/, "");
+}
@@ -0,0 +1,31 @@
+export type ExitReason = "take_profit" | "stop_loss" | "time";
+
+/** Optional rules for selling a position before resolution. Prices are absolute bids. */
+export interface ExitRules {
+  takeProfit?: number;         // sell when the held token's bid reaches this
+  stopLoss?: number;           // sell when the held token's bid drops to this
+  flattenBeforeEndMs?: number; // sell this long before the window ends
+}
+
+export function hasExitRules(rules: ExitRules): boolean {
+  return rules.takeProfit !== undefined ||
+    rules.stopLoss !== undefined ||
+    rules.flattenBeforeEndMs !== undefined;
+}
+
+/** Which rule, if any, says to exit now. `bid` is null when there's no bid to check. */
+export function checkExit(rules: ExitRules, bid: number | null, msLeft: number): ExitReason | null {
+  if (rules.flattenBeforeEndMs !== undefined && msLeft <= rules.flattenBeforeEndMs) return "time";
+  if (bid === null) return null;
+  if (rules.takeProfit !== undefined && bid >= rules.takeProfit) return "take_profit";
+  if (rules.stopLoss !== undefined && bid <= rules.stopLoss) return "stop_loss";
+  return null;
+}
+
+export function describeExitRules(rules: ExitRules): string {
+  const parts: string[] = [];
+  if (rules.takeProfit !== undefined) parts.push(`take-profit at $${rules.takeProfit.toFixed(2)}`);
+  if (rules.stopLoss !== undefined) parts.push(`stop-loss at $${rules.stopLoss.toFixed(2)}`);
+  if (rules.flattenBeforeEndMs !== undefined) parts.push(`flatten ${rules.flattenBeforeEndMs / 1000}s before end`);
+  return parts.length > 0 ? parts.join(", ") : "hold to resolution";
+}
@@ -1,9 +1,13 @@
-import { fetchAllAssetCandles, type Asset, type Candle } from "./candles.js";
+import { fetchAllAssetCandles } from "./candles.js";
 import { runBacktest } from "./backtest.js";
+import { now } from "./clock.js";
+import { candleCache } from "./db.js";
+import { betaCdf, betaQuantile } from "./probability.js";
+import { DEFAULT_SERIES, formatSeries, type MarketSeries } from "./market.js";
 
 const WIN_RATE_THRESHOLD = 60; // break-even at $0.60/$1.00
-const BACKTEST_DAYS = 7;
-const MIN_SAMPLES = 5; // need at least 5 trades in a cell to trust it
+export const BACKTEST_DAYS = 7;
+export const MIN_SAMPLES = 5; // need at least 5 trades in a cell to trust it
 
 const DAY_NAMES = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
 
@@ -12,42 +16,122 @@ export interface FilterMatrix {
   tradesByHourDay: number[][]; // 24 × 7
 }
 
-export async function loadFilterMatrix(): Promise<FilterMatrix | null> {
-  console.log("[Filter] Loading XRP backtest data for hour/day filter...");
+/**
+ * "threshold" trades a cell whose raw win rate clears break-even, and any cell with
+ * fewer than MIN_SAMPLES trades. "bayes" keeps a Beta posterior per cell and trades
+ * only when P(win rate > break-even) reaches `confidence`, so thin cells are skipped.
+ */
+export interface FilterOptions {
+  mode: "threshold" | "bayes";
+  confidence: number;    // posterior probability needed to trade, and the credible interval's width
+  priorStrength: number; // pseudo-trades of shrinkage toward the asset-wide win rate (0 = uniform prior)
+}
 
-  const candleData = await fetchAllAssetCandles(BACKTEST_DAYS);
-  const xrpCandles = candleData.get("XRP" as Asset);
+export const DEFAULT_FILTER_OPTIONS: FilterOptions = {
+  mode: "threshold",
+  confidence: 0.9,
+  priorStrength: 0,
+};
 
-  if (!xrpCandles || xrpCandles.length === 0) {
-    console.error("[Filter] No XRP candle data available");
-    return null;
+let filterOptions: FilterOptions = DEFAULT_FILTER_OPTIONS;
+
+export function setFilterOptions(options: FilterOptions): void {
+  filterOptions = options;
+}
+
+export function describeFilterOptions(options: FilterOptions = filterOptions): string {
+  if (options.mode === "threshold") {
+    return `raw win rate >= ${WIN_RATE_THRESHOLD}%, cells under ${MIN_SAMPLES} samples allowed`;
+  }
+  const prior = options.priorStrength > 0
+    ? `prior of ${options.priorStrength} trades at the asset-wide rate`
+    : "uniform prior";
+  return `P(win rate > ${WIN_RATE_THRESHOLD}%) >= ${(options.confidence * 100).toFixed(0)}%, ${prior}`;
+}
+
+export interface CellPosterior {
+  mean: number;              // posterior mean win rate, 0–1
+  lower: number;             // equal-tailed credible interval at the configured confidence
+  upper: number;
+  probAboveBreakEven: number;
+}
+
+/** Beta posterior for one cell: Beta(1, 1) plus optional pseudo-trades at the asset-wide rate, plus the cell's record. */
+export function cellPosterior(
+  matrix: FilterMatrix,
+  hour: number,
+  day: number,
+  options: FilterOptions = filterOptions
+): CellPosterior {
+  let alpha = 1;
+  let beta = 1;
+
+  if (options.priorStrength > 0) {
+    const totalTrades = matrix.tradesByHourDay.flat().reduce((a, b) => a + b, 0);
+    const totalWins = matrix.winsByHourDay.flat().reduce((a, b) => a + b, 0);
+    if (totalTrades > 0) {
+      const assetRate = totalWins / totalTrades;
+      alpha += options.priorStrength * assetRate;
+      beta += options.priorStrength * (1 - assetRate);
+    }
   }
 
-  // Build a single-asset map for runBacktest
-  const xrpOnly = new Map<Asset, Candle[]>();
-  xrpOnly.set("XRP" as Asset, xrpCandles);
+  const wins = matrix.winsByHourDay[hour][day];
+  alpha += wins;
+  beta += matrix.tradesByHourDay[hour][day] - wins;
 
-  const results = runBacktest(xrpOnly);
+  const tail = (1 - options.confidence) / 2;
+  return {
+    mean: alpha / (alpha + beta),
+    lower: betaQuantile(tail, alpha, beta),
+    upper: betaQuantile(1 - tail, alpha, beta),
+    probAboveBreakEven: 1 - betaCdf(WIN_RATE_THRESHOLD / 100, alpha, beta),
+  };
+}
+
+export async function loadFilterMatrix(
+  series: MarketSeries = DEFAULT_SERIES
+): Promise<FilterMatrix | null> {
+  const { asset } = series;
+  const label = formatSeries(series);
+  console.log(`[Filter] Loading ${label} backtest data for hour/day filter...`);
+
+  // Fetch only the series' asset so runBacktest yields a single result
+  const candleData = await fetchAllAssetCandles(BACKTEST_DAYS, [asset], { cache: candleCache });
+  const candles = candleData.get(asset);
+
+  if (!candles || candles.length === 0) {
+    console.error(`[Filter] No ${asset} candle data available`);
+    return null;
+  }
+
+  const results = runBacktest(candleData, series.duration);
   if (results.length === 0) {
     console.error("[Filter] Backtest returned no results");
     return null;
   }
 
-  const xrpResult = results[0];
+  const result = results[0];
   console.log(
-    `[Filter] XRP backtest: ${xrpResult.tradesEntered} trades, ${xrpResult.winRate.toFixed(1)}% win rate`
+    `[Filter] ${label} backtest: ${result.tradesEntered} trades, ${result.winRate.toFixed(1)}% win rate`
   );
 
   return {
-    winsByHourDay: xrpResult.winsByHourDay,
-    tradesByHourDay: xrpResult.tradesByHourDay,
+    winsByHourDay: result.winsByHourDay,
+    tradesByHourDay: result.tradesByHourDay,
   };
 }
 
-export function shouldTrade(matrix: FilterMatrix): boolean {
-  const now = new Date();
-  const hour = now.getUTCHours();
-  const day = now.getUTCDay();
+export function shouldTrade(matrix: FilterMatrix, at: number = now()): boolean {
+  const dt = new Date(at);
+  return shouldTradeCell(matrix, dt.getUTCHours(), dt.getUTCDay());
+}
+
+/** The filter's decision for one hour × day-of-week cell. */
+export function shouldTradeCell(matrix: FilterMatrix, hour: number, day: number): boolean {
+  if (filterOptions.mode === "bayes") {
+    return cellPosterior(matrix, hour, day).probAboveBreakEven >= filterOptions.confidence;
+  }
 
   const trades = matrix.tradesByHourDay[hour][day];
   const wins = matrix.winsByHourDay[hour][day];
@@ -66,10 +150,11 @@ export function getCurrentCellInfo(matrix: FilterMatrix): {
   day: string;
   winRate: number | null;
   trades: number;
+  posterior: CellPosterior;
 } {
-  const now = new Date();
-  const hour = now.getUTCHours();
-  const dow = now.getUTCDay();
+  const dt = new Date(now());
+  const hour = dt.getUTCHours();
+  const dow = dt.getUTCDay();
 
   const trades = matrix.tradesByHourDay[hour][dow];
   const wins = matrix.winsByHourDay[hour][dow];
@@ -80,5 +165,6 @@ export function getCurrentCellInfo(matrix: FilterMatrix): {
     day: DAY_NAMES[dow],
     winRate,
     trades,
+    posterior: cellPosterior(matrix, hour, dow),
   };
 }
@@ -0,0 +1,93 @@
+import {
+  fetchMarketResolution,
+  formatSeries,
+  getSeriesSlugPrefix,
+  WINDOW_SECONDS,
+  type MarketSeries,
+} from "./market.js";
+import { getResolutions, upsertResolution } from "./db.js";
+
+const REQUEST_DELAY = 100; // ms between Gamma requests
+const PROGRESS_EVERY = 200; // log progress every N markets
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+export interface HarvestSummary {
+  checked: number;    // markets requested from Gamma
+  resolved: number;   // of those, resolved Up or Down
+  unresolved: number; // found but not settled yet; retried next harvest
+  missing: number;    // no such event, or unreadable
+  skipped: number;    // already harvested with an outcome
+}
+
+/**
+ * Walk a series' past windows from the most recent ended one back `days`, storing each
+ * market's settlement. Windows already stored with an outcome are skipped.
+ */
+export async function harvestResolutions(series: MarketSeries, days: number): Promise<HarvestSummary> {
+  const windowMs = WINDOW_SECONDS[series.duration] * 1000;
+  const lastStart = Math.floor(Date.now() / windowMs) * windowMs - windowMs;
+  const firstStart = lastStart - Math.floor((days * 24 * 60 * 60 * 1000) / windowMs) * windowMs;
+  const prefix = getSeriesSlugPrefix(series);
+  const label = formatSeries(series);
+
+  const known = new Set(
+    getResolutions(series.asset, series.duration, firstStart, lastStart + windowMs)
+      .filter((r) => r.outcome !== null)
+      .map((r) => r.start_time)
+  );
+
+  const summary: HarvestSummary = { checked: 0, resolved: 0, unresolved: 0, missing: 0, skipped: 0 };
+  const total = (lastStart - firstStart) / windowMs + 1;
+  console.log(`[Harvest] ${label}: ${total} windows, ${known.size} already harvested`);
+
+  for (let start = lastStart; start >= firstStart; start -= windowMs) {
+    if (known.has(start)) {
+      summary.skipped++;
+      continue;
+    }
+
+    const slug = `${prefix}${start / 1000}`;
+    let resolution;
+    try {
+      resolution = await fetchMarketResolution(slug);
+    } catch (err) {
+      console.error(`[Harvest] ${slug}: request failed:`, (err as Error).message);
+      resolution = null;
+    }
+    summary.checked++;
+
+    if (!resolution) {
+      summary.missing++;
+    } else {
+      if (resolution.outcome) summary.resolved++;
+      else summary.unresolved++;
+      upsertResolution({
+        slug,
+        asset: series.asset,
+        duration: series.duration,
+        start_time: start,
+        end_time: start + windowMs,
+        outcome: resolution.outcome,
+        start_price: resolution.startPrice,
+        end_price: resolution.endPrice,
+        up_price: resolution.upPrice,
+        down_price: resolution.downPrice,
+        harvested_at: Date.now(),
+      });
+    }
+
+    if (summary.checked % PROGRESS_EVERY === 0) {
+      console.log(`[Harvest] ${label}: ${summary.checked} checked, ${summary.resolved} resolved`);
+    }
+    await sleep(REQUEST_DELAY);
+  }
+
+  console.log(
+    `[Harvest] ${label}: ${summary.resolved} resolved, ${summary.unresolved} unresolved, ` +
+    `${summary.missing} missing, ${summary.skipped} already harvested`
+  );
+  return summary;
+}
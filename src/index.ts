@@ -4,9 +4,28 @@ import {
   fetchMarket,
   fetchWithTimeout,
   getMarketEndTime,
+  getNextMarketSlug,
+  parseSeries,
+  formatSeries,
+  DEFAULT_SERIES,
+  MARKET_DURATIONS,
+  WINDOW_SECONDS,
   type MarketInfo,
+  type MarketSeries,
+  type WindowDuration,
 } from "./market.js";
-import { connectMarketWs } from "./ws.js";
+import type { Asset } from "./candles.js";
+import type { Resolutions } from "./backtest.js";
+import { now, parseTime } from "./clock.js";
+import { CLOB_HOST } from "./endpoints.js";
+import {
+  connectMarketFeed,
+  describeFeedStats,
+  DEFAULT_STALE_AFTER_MS,
+  type MarketFeed,
+  type RawEventCallback,
+} from "./ws.js";
+import { startRecorder, stopRecorder, recordMarket, recordEvent } from "./recorder.js";
 import {
   handlePriceUpdate,
   getLatestPrices,
@@ -15,93 +34,376 @@ import {
   startResolutionLoop,
   stopResolutionLoop,
   clearMarketState,
+  startMarketWindow,
+  setActiveStrategies,
+  setPaperNotional,
+  setExitRules,
+  setMaxPriceAge,
+  checkPositionExits,
+  DEFAULT_MAX_PRICE_AGE_MS,
   BUY_THRESHOLD,
+  BUY_MAX_PRICE,
 } from "./strategy.js";
-import { getTradeStats, insertLiveTrade, closeDb } from "./db.js";
+import { listStrategies, DEFAULT_STRATEGY_ID } from "./strategies.js";
+import {
+  getTradeStats,
+  insertLiveTrade,
+  updateLiveTradeFill,
+  linkOrderToTrade,
+  exitTrade,
+  partialExitTrade,
+  getResolutions,
+  startRun,
+  stopRun,
+  closeDb,
+  candleCache,
+} from "./db.js";
+import {
+  setRiskLimits,
+  checkHalts,
+  checkNewOrder,
+  onLiveTradeClosed,
+  getRiskSnapshot,
+  resetRisk,
+  DEFAULT_RISK_LIMITS,
+  type RiskLimits,
+} from "./risk.js";
+import { checkExit, hasExitRules, describeExitRules, type ExitReason, type ExitRules } from "./exits.js";
+import {
+  printTradeStats,
+  tradeStatsToJson,
+  GROUP_BY_KEYS,
+  type GroupBy,
+  type StatsOptions,
+} from "./stats.js";
+import { setSignificanceOptions, DEFAULT_SIGNIFICANCE_OPTIONS, type SignificanceOptions } from "./significance.js";
+import { sweepStaleTrades, startStaleSweeper, stopStaleSweeper, setTradeTimeout } from "./sweeper.js";
 import {
   loadFilterMatrix,
+  BACKTEST_DAYS,
   shouldTrade,
   getCurrentCellInfo,
+  setFilterOptions,
+  describeFilterOptions,
+  DEFAULT_FILTER_OPTIONS,
   type FilterMatrix,
+  type FilterOptions,
 } from "./filter.js";
 import {
   initClobClient,
   getWalletAddress,
   placeOrder,
-  waitForOrderFill,
+  placeSellOrder,
+  trackOrder,
+  startUserFeed,
+  stopUserFeed,
   cancelAllOrders,
 } from "./clob.js";
 import readline from "node:readline";
+import path from "node:path";
+import fs from "node:fs";
+import os from "node:os";
+import { execFileSync } from "node:child_process";
 
 // CLI flags
 const IS_LIVE = process.argv.includes("--live");
+const IS_RECORDING = process.argv.includes("--record");
+const TOKEN_GRACE_MS = 10_000; // keep a window's tokens subscribed this long after it ends
 const sizeIdx = process.argv.indexOf("--size");
 const POSITION_SIZE = sizeIdx !== -1 ? parseFloat(process.argv[sizeIdx + 1]) : 5;
+const strategiesIdx = process.argv.indexOf("--strategies");
+const STRATEGY_IDS = strategiesIdx !== -1
+  ? process.argv[strategiesIdx + 1].split(",").map((id) => id.trim()).filter(Boolean)
+  : [DEFAULT_STRATEGY_ID];
+const seriesIdx = process.argv.indexOf("--series");
+const SERIES_SPECS = seriesIdx !== -1
+  ? process.argv[seriesIdx + 1].split(",").filter((spec) => spec.trim())
+  : [formatSeries(DEFAULT_SERIES)];
+const SERIES: MarketSeries[] = [];
+for (const spec of SERIES_SPECS) {
+  const series = parseSeries(spec);
+  if (!series) {
+    console.error(`Invalid --series "${spec}". Expected <asset>-<duration>, e.g. btc-5m, eth-15m, sol-1h`);
+    process.exit(1);
+  }
+  SERIES.push(series);
+}
 
-const MAX_SESSION_LOSS = 50; // halt trading if session losses exceed this
-
-// --stats mode: print stats and exit
-if (process.argv.includes("--stats")) {
-  const stats = getTradeStats();
-
-  console.log("\n=== Paper Trading Stats ===\n");
-  console.log(`Total trades:  ${stats.total}`);
-  console.log(`Wins:          ${stats.wins}`);
-  console.log(`Losses:        ${stats.losses}`);
-  console.log(`Pending:       ${stats.pending}`);
-  console.log(`Timeouts:      ${stats.timeouts}`);
-  console.log(
-    `Total P&L:     ${stats.totalProfit >= 0 ? "+" : ""}$${stats.totalProfit.toFixed(2)}`
+/** Exit unless every series has Polymarket markets to look up. Hourly series are backtest-only. */
+function requireMarketSeries(purpose: string): void {
+  const unsupported = SERIES.filter((s) => !MARKET_DURATIONS.includes(s.duration));
+  if (unsupported.length === 0) return;
+  console.error(
+    `${purpose} needs Polymarket markets, which are only found for ${MARKET_DURATIONS.join(" and ")} series. ` +
+    `${unsupported.map(formatSeries).join(", ")} can only be backtested.`
   );
+  process.exit(1);
+}
 
-  if (stats.total > 0) {
-    const resolved = stats.wins + stats.losses;
-    const winRateNum = resolved > 0 ? (stats.wins / resolved) * 100 : null;
-    console.log(`Win rate:      ${winRateNum !== null ? winRateNum.toFixed(1) + "%" : "N/A"}`);
+// Early exit rules: --take-profit <bid>, --stop-loss <bid>, --exit-before <seconds>
+const EXIT_RULES: ExitRules = {};
+for (const [flag, apply] of [
+  ["--take-profit", (v: number) => { EXIT_RULES.takeProfit = v; }],
+  ["--stop-loss", (v: number) => { EXIT_RULES.stopLoss = v; }],
+  ["--exit-before", (v: number) => { EXIT_RULES.flattenBeforeEndMs = v * 1000; }],
+] as const) {
+  const idx = process.argv.indexOf(flag);
+  if (idx === -1) continue;
+  const value = parseFloat(process.argv[idx + 1]);
+  if (isNaN(value) || value < 0) {
+    console.error(`Invalid ${flag} "${process.argv[idx + 1]}"`);
+    process.exit(1);
+  }
+  apply(value);
+}
 
-    if (stats.avgWin !== null && stats.avgLoss !== null && winRateNum !== null) {
-      const avgLossAbs = Math.abs(stats.avgLoss);
-      const breakEvenRate = (avgLossAbs / (stats.avgWin + avgLossAbs)) * 100;
-      const edge = winRateNum - breakEvenRate;
-      const sign = edge >= 0 ? "+" : "";
+// Live risk limits: --daily-loss, --max-consec-losses, --max-exposure, --max-trades-hour, --kill-switch
+const RISK_LIMITS: RiskLimits = { ...DEFAULT_RISK_LIMITS };
+for (const [flag, key] of [
+  ["--daily-loss", "dailyLoss"],
+  ["--max-consec-losses", "maxConsecutiveLosses"],
+  ["--max-exposure", "maxOpenExposure"],
+  ["--max-trades-hour", "maxTradesPerHour"],
+] as const) {
+  const idx = process.argv.indexOf(flag);
+  if (idx === -1) continue;
+  const value = parseFloat(process.argv[idx + 1]);
+  if (isNaN(value) || value <= 0) {
+    console.error(`Invalid ${flag} "${process.argv[idx + 1]}"`);
+    process.exit(1);
+  }
+  RISK_LIMITS[key] = value;
+}
+const killSwitchIdx = process.argv.indexOf("--kill-switch");
+if (killSwitchIdx !== -1) RISK_LIMITS.killSwitchPath = path.resolve(process.argv[killSwitchIdx + 1]);
+
+// Feed health: --max-price-age <seconds> refuses entries on older prices, --ws-stale <seconds> reconnects a silent feed
+let MAX_PRICE_AGE_MS = DEFAULT_MAX_PRICE_AGE_MS;
+let WS_STALE_MS = DEFAULT_STALE_AFTER_MS;
+for (const [flag, apply] of [
+  ["--max-price-age", (v: number) => { MAX_PRICE_AGE_MS = v * 1000; }],
+  ["--ws-stale", (v: number) => { WS_STALE_MS = v * 1000; }],
+] as const) {
+  const idx = process.argv.indexOf(flag);
+  if (idx === -1) continue;
+  const value = parseFloat(process.argv[idx + 1]);
+  if (isNaN(value) || value <= 0) {
+    console.error(`Invalid ${flag} "${process.argv[idx + 1]}"`);
+    process.exit(1);
+  }
+  apply(value);
+}
 
-      console.log(`Avg win:       +$${stats.avgWin.toFixed(2)}`);
-      console.log(`Avg loss:      -$${avgLossAbs.toFixed(2)}`);
-      console.log(`Break-even:    ${breakEvenRate.toFixed(1)}%`);
-      console.log(`Edge:          ${sign}${edge.toFixed(1)}pp`);
+// --trade-timeout <hours>: give up on a pending trade this long after its market ended
+const tradeTimeoutIdx = process.argv.indexOf("--trade-timeout");
+if (tradeTimeoutIdx !== -1) {
+  const hours = parseFloat(process.argv[tradeTimeoutIdx + 1]);
+  if (isNaN(hours) || hours <= 0) {
+    console.error(`Invalid --trade-timeout "${process.argv[tradeTimeoutIdx + 1]}"`);
+    process.exit(1);
+  }
+  setTradeTimeout(hours * 60 * 60 * 1000);
+}
+
+// Hour/day filter: --filter threshold|bayes, --filter-confidence <0-1>, --filter-prior <pseudo-trades>
+const FILTER_OPTIONS: FilterOptions = { ...DEFAULT_FILTER_OPTIONS };
+const filterModeIdx = process.argv.indexOf("--filter");
+if (filterModeIdx !== -1) {
+  const mode = process.argv[filterModeIdx + 1];
+  if (mode !== "threshold" && mode !== "bayes") {
+    console.error(`Invalid --filter "${mode}". Expected threshold or bayes`);
+    process.exit(1);
+  }
+  FILTER_OPTIONS.mode = mode;
+}
+for (const [flag, apply] of [
+  ["--filter-confidence", (v: number) => { FILTER_OPTIONS.confidence = v; }],
+  ["--filter-prior", (v: number) => { FILTER_OPTIONS.priorStrength = v; }],
+] as const) {
+  const idx = process.argv.indexOf(flag);
+  if (idx === -1) continue;
+  const value = parseFloat(process.argv[idx + 1]);
+  if (isNaN(value) || value < 0 || (flag === "--filter-confidence" && (value <= 0 || value >= 1))) {
+    console.error(`Invalid ${flag} "${process.argv[idx + 1]}"`);
+    process.exit(1);
+  }
+  apply(value);
+}
+setFilterOptions(FILTER_OPTIONS);
+
+// Edge significance in --stats and backtest reports: --alpha <test level>, --power <0-1> for trades-to-confirm
+const SIGNIFICANCE_OPTIONS: SignificanceOptions = { ...DEFAULT_SIGNIFICANCE_OPTIONS };
+for (const [flag, key] of [
+  ["--alpha", "alpha"],
+  ["--power", "power"],
+] as const) {
+  const idx = process.argv.indexOf(flag);
+  if (idx === -1) continue;
+  const value = parseFloat(process.argv[idx + 1]);
+  if (isNaN(value) || value <= 0 || value >= 1) {
+    console.error(`Invalid ${flag} "${process.argv[idx + 1]}". Expected a number between 0 and 1`);
+    process.exit(1);
+  }
+  SIGNIFICANCE_OPTIONS[key] = value;
+}
+setSignificanceOptions(SIGNIFICANCE_OPTIONS);
+
+/** Activate the --strategies selection, or print the available ids and exit. */
+function activateStrategies(): void {
+  setPaperNotional(POSITION_SIZE);
+  console.log(`[Main] Paper fills: $${POSITION_SIZE} per entry, simulated against the order book`);
+  setExitRules(EXIT_RULES);
+  console.log(`[Main] Exits: ${describeExitRules(EXIT_RULES)}`);
+  setMaxPriceAge(MAX_PRICE_AGE_MS);
+  console.log(`[Main] Entries need a price under ${MAX_PRICE_AGE_MS / 1000}s old`);
+  try {
+    const strategies = setActiveStrategies(STRATEGY_IDS);
+    for (const s of strategies) {
+      console.log(`[Main] Strategy ${s.id}: ${s.description}`);
     }
+  } catch (err) {
+    console.error(`[Main] ${(err as Error).message}`);
+    console.error(`[Main] Available strategies: ${listStrategies().map((s) => s.id).join(", ")}`);
+    closeDb();
+    process.exit(1);
+  }
+}
 
-    console.log("\n--- Recent Trades ---\n");
-    console.log(
-      "ID  | Side | Buy    | Outcome | Profit  | Market"
-    );
-    console.log("-".repeat(70));
-
-    for (const t of stats.trades.slice(0, 20)) {
-      const outcome = t.outcome ?? "pending";
-      const profit =
-        t.profit !== null
-          ? `${t.profit >= 0 ? "+" : ""}$${t.profit.toFixed(2)}`
-          : "   -";
-      console.log(
-        `#${String(t.id).padEnd(2)} | ${t.side.padEnd(4)} | $${t.buy_price.toFixed(2)} | ${outcome.padEnd(7)} | ${profit.padEnd(7)} | ${t.market_slug}`
-      );
+/** The checkout's commit, marked -dirty with uncommitted changes; null outside a git checkout. */
+function getCodeVersion(): string | null {
+  try {
+    return execFileSync("git", ["describe", "--always", "--dirty"], {
+      cwd: path.dirname(new URL(import.meta.url).pathname),
+      encoding: "utf8",
+      stdio: ["ignore", "pipe", "ignore"],
+    }).trim() || null;
+  } catch {
+    return null;
+  }
+}
+
+/** Record this process as a run, with the settings its trades were placed under. */
+function beginRun(mode: "paper" | "live" | "replay", extra: Record<string, unknown> = {}): void {
+  const config = {
+    buyThreshold: BUY_THRESHOLD,
+    buyMaxPrice: BUY_MAX_PRICE,
+    positionSize: POSITION_SIZE,
+    strategies: STRATEGY_IDS,
+    series: SERIES.map(formatSeries),
+    exitRules: EXIT_RULES,
+    maxPriceAgeMs: MAX_PRICE_AGE_MS,
+    wsStaleMs: WS_STALE_MS,
+    filter: FILTER_OPTIONS,
+    ...extra,
+  };
+  const codeVersion = getCodeVersion();
+  const runId = startRun({
+    mode,
+    host: os.hostname(),
+    pid: process.pid,
+    code_version: codeVersion,
+    argv: JSON.stringify(process.argv.slice(2)),
+    config: JSON.stringify(config),
+  });
+  console.log(`[Main] Run #${runId} (${mode}${codeVersion ? `, ${codeVersion}` : ""})`);
+}
+
+// --reset-risk: clear live risk halts and restart the consecutive-loss count
+if (process.argv.includes("--reset-risk")) {
+  const cleared = resetRisk();
+  console.log(`[Risk] Cleared ${cleared} active halt(s); consecutive-loss count restarted`);
+  closeDb();
+  process.exit(0);
+}
+
+// --stats mode: settle what we can of old pending trades (unless --offline), print stats and exit.
+// --since/--until <time>, --mode paper|live and --slug-prefix <prefix> narrow the trades;
+// --group-by day,hour,weekday,side,price,run,strategy adds breakdowns; --export <file.json> saves them.
+if (process.argv.includes("--stats")) {
+  const flag = (name: string) => {
+    const idx = process.argv.indexOf(name);
+    return idx !== -1 ? process.argv[idx + 1] : undefined;
+  };
+  const options: StatsOptions = { filter: {}, groupBy: [] };
+  for (const [name, apply] of [
+    ["--since", (ms: number) => { options.filter.since = ms; }],
+    ["--until", (ms: number) => { options.filter.until = ms; }],
+  ] as const) {
+    const value = flag(name);
+    if (value === undefined) continue;
+    const ms = parseTime(value);
+    if (ms === null) {
+      console.error(`Invalid ${name} "${value}". Use an ISO date or a Unix timestamp`);
+      process.exit(1);
+    }
+    apply(ms);
+  }
+  const mode = flag("--mode");
+  if (mode !== undefined) {
+    if (mode !== "paper" && mode !== "live") {
+      console.error(`Invalid --mode "${mode}". Expected paper or live`);
+      process.exit(1);
+    }
+    options.filter.mode = mode;
+  }
+  const slugPrefix = flag("--slug-prefix");
+  if (slugPrefix !== undefined) options.filter.slugPrefix = slugPrefix;
+  const groupBy = flag("--group-by");
+  if (groupBy !== undefined) {
+    for (const key of groupBy.split(",").map((k) => k.trim()).filter(Boolean)) {
+      if (!(GROUP_BY_KEYS as readonly string[]).includes(key)) {
+        console.error(`Invalid --group-by "${key}". Expected one or more of ${GROUP_BY_KEYS.join(", ")}`);
+        process.exit(1);
+      }
+      options.groupBy.push(key as GroupBy);
     }
   }
 
+  if (!process.argv.includes("--offline")) await sweepStaleTrades();
+  printTradeStats(options.filter.mode === "live" ? "Live Trading Stats" : "Paper Trading Stats", options);
   console.log("");
+  const exportPath = flag("--export");
+  if (exportPath !== undefined) {
+    fs.writeFileSync(path.resolve(exportPath), JSON.stringify(tradeStatsToJson(options), null, 2));
+    console.log(`[Stats] Written to ${path.resolve(exportPath)}\n`);
+  }
   closeDb();
   process.exit(0);
 }
 
-// --vol and/or --backtest mode: fetch candles, compute, print, exit
-if (process.argv.includes("--vol") || process.argv.includes("--backtest")) {
+// --harvest, --vol, --backtest, --rules, --sweep and/or --walk-forward mode: fetch history, compute, print, exit
+const CANDLE_MODES = ["--vol", "--backtest", "--rules", "--sweep", "--walk-forward"];
+if (process.argv.includes("--harvest") || CANDLE_MODES.some((mode) => process.argv.includes(mode))) {
   (async () => {
     const { fetchAllAssetCandles } = await import("./candles.js");
-    const candleData = await fetchAllAssetCandles(7);
+    const assets = [...new Set(SERIES.map((s) => s.asset))];
+    // --days <n> candle history; walk-forward needs several training windows, so it defaults to 4 weeks
+    const daysIdx = process.argv.indexOf("--days");
+    const candleDays = daysIdx !== -1
+      ? parseInt(process.argv[daysIdx + 1], 10)
+      : process.argv.includes("--walk-forward") ? 28 : 7;
+    if (isNaN(candleDays) || candleDays <= 0) {
+      console.error(`Invalid --days "${process.argv[daysIdx + 1]}"`);
+      process.exit(1);
+    }
+    // --harvest: store each past window's Polymarket resolution for --backtest --real-outcomes
+    if (process.argv.includes("--harvest")) {
+      requireMarketSeries("--harvest");
+      const { harvestResolutions } = await import("./harvest.js");
+      for (const series of SERIES) {
+        await harvestResolutions(series, candleDays);
+      }
+      if (!CANDLE_MODES.some((mode) => process.argv.includes(mode))) return;
+    }
+
+    // --offline: use only the local candle cache
+    const offline = process.argv.includes("--offline");
+    const candleData = await fetchAllAssetCandles(candleDays, assets, { offline, cache: candleCache });
 
     if (candleData.size === 0) {
-      console.error("No candle data retrieved. Check network connectivity.");
+      console.error(offline
+        ? "No cached candle data. Run once without --offline to fill the cache."
+        : "No candle data retrieved. Check network connectivity.");
       process.exit(1);
     }
 
@@ -111,10 +413,154 @@ if (process.argv.includes("--vol") || process.argv.includes("--backtest")) {
       printVolMatrix(matrix);
     }
 
+    // Backtest options: --bankroll <dollars> for drawdown % and returns,
+    // --real-outcomes to score against harvested Polymarket resolutions instead of candle direction
+    const { DEFAULT_BACKTEST_CONFIG } = await import("./backtest.js");
+    const bankrollIdx = process.argv.indexOf("--bankroll");
+    const bankroll = bankrollIdx !== -1 ? parseFloat(process.argv[bankrollIdx + 1]) : DEFAULT_BACKTEST_CONFIG.bankroll;
+    if (isNaN(bankroll) || bankroll <= 0) {
+      console.error(`Invalid --bankroll "${process.argv[bankrollIdx + 1]}"`);
+      process.exit(1);
+    }
+
+    // Only backtest the assets that were requested with each duration
+    const durationSubsets = [...new Set(SERIES.map((s) => s.duration))].map((duration) => {
+      const durationAssets = SERIES.filter((s) => s.duration === duration).map((s) => s.asset);
+      const subset = new Map([...candleData].filter(([asset]) => durationAssets.includes(asset)));
+      return { duration, subset };
+    });
+
+    const loadResolutions = (duration: WindowDuration, assetList: Iterable<Asset>) => {
+      if (!process.argv.includes("--real-outcomes")) return undefined;
+      const resolutions: Resolutions = new Map();
+      for (const asset of assetList) {
+        const rows = getResolutions(asset, duration, 0, Number.MAX_SAFE_INTEGER);
+        resolutions.set(asset, new Map(
+          rows.filter((r) => r.outcome !== null).map((r) => [r.start_time, r.outcome!])
+        ));
+        if (rows.length === 0) {
+          console.warn(`[Backtest] No harvested ${asset.toLowerCase()}-${duration} resolutions; run with --harvest first`);
+        }
+      }
+      return resolutions;
+    };
+
     if (process.argv.includes("--backtest")) {
-      const { runBacktest, printBacktestResults } = await import("./backtest.js");
-      const results = runBacktest(candleData);
-      printBacktestResults(results);
+      // --export <file.json> to save the results and equity curves
+      const { runBacktest, printBacktestResults, backtestResultsToJson } = await import("./backtest.js");
+      const config = { ...DEFAULT_BACKTEST_CONFIG, bankroll };
+
+      const exported: object[] = [];
+      for (const { duration, subset } of durationSubsets) {
+        const results = runBacktest(subset, duration, config, loadResolutions(duration, subset.keys()));
+        printBacktestResults(results);
+        exported.push(...backtestResultsToJson(results));
+      }
+
+      const exportIdx = process.argv.indexOf("--export");
+      if (exportIdx !== -1) {
+        const exportPath = path.resolve(process.argv[exportIdx + 1]);
+        fs.writeFileSync(exportPath, JSON.stringify(exported, null, 2));
+        console.log(`[Backtest] Results written to ${exportPath}`);
+      }
+    }
+
+    if (process.argv.includes("--rules")) {
+      // --rules <file.json,...>: compare declarative entry rules side by side
+      const { runRuleBacktests, printRuleComparison } = await import("./rules.js");
+      const files = process.argv[process.argv.indexOf("--rules") + 1]?.split(",").map((f) => f.trim()).filter(Boolean) ?? [];
+      if (files.length === 0) {
+        console.error("--rules needs one or more comma-separated rule files");
+        process.exit(1);
+      }
+      for (const { duration, subset } of durationSubsets) {
+        try {
+          const backtests = runRuleBacktests(files, subset, duration, bankroll, loadResolutions(duration, subset.keys()));
+          printRuleComparison(backtests);
+        } catch (err) {
+          console.error(`[Rules] ${(err as Error).message}`);
+          process.exit(1);
+        }
+      }
+    }
+
+    if (process.argv.includes("--sweep")) {
+      // Ranges are "start:end:step" or comma lists; the defaults reproduce a plain --backtest
+      const sweep = await import("./sweep.js");
+      const flag = (name: string, fallback: string) => {
+        const idx = process.argv.indexOf(name);
+        return idx !== -1 ? process.argv[idx + 1] : fallback;
+      };
+      let ranges: import("./sweep.js").SweepRanges;
+      try {
+        ranges = {
+          buyPrices: sweep.parseNumberRange(flag("--sweep-buy", "0.60")),
+          lookaheadCandles: sweep.parseNumberRange(flag("--sweep-lookahead", "2")),
+          minMoves: sweep.parseNumberRange(flag("--sweep-move", "0")),
+          hours: sweep.parseHourFilters(flag("--sweep-hours", "all")),
+          days: sweep.parseDayFilters(flag("--sweep-days", "all")),
+        };
+      } catch (err) {
+        console.error((err as Error).message);
+        process.exit(1);
+      }
+      if (ranges.buyPrices.some((p) => p <= 0 || p >= 1)) {
+        console.error("Invalid --sweep-buy: prices must be between 0 and 1");
+        process.exit(1);
+      }
+      if (ranges.lookaheadCandles.some((n) => !Number.isInteger(n) || n < 1)) {
+        console.error("Invalid --sweep-lookahead: candle counts must be whole numbers of at least 1");
+        process.exit(1);
+      }
+      // A window has one 1m candle per minute; looking further ahead would skip every window
+      const shortest = durationSubsets
+        .map(({ duration }) => duration)
+        .reduce((a, b) => (WINDOW_SECONDS[b] < WINDOW_SECONDS[a] ? b : a));
+      const windowCandles = WINDOW_SECONDS[shortest] / 60;
+      if (ranges.lookaheadCandles.some((n) => n > windowCandles)) {
+        console.error(`Invalid --sweep-lookahead: ${shortest} windows have only ${windowCandles} candles`);
+        process.exit(1);
+      }
+      if (ranges.minMoves.some((m) => m < 0)) {
+        console.error("Invalid --sweep-move: minimum moves must not be negative");
+        process.exit(1);
+      }
+      const top = parseInt(flag("--top", "20"), 10);
+      if (isNaN(top) || top <= 0) {
+        console.error(`Invalid --top "${flag("--top", "")}"`);
+        process.exit(1);
+      }
+
+      for (const { duration, subset } of durationSubsets) {
+        const results = sweep.runSweep(subset, duration, ranges, bankroll);
+        sweep.printSweepResults(results, ranges, top);
+        const sweepId = sweep.saveSweep(results, duration, candleDays, ranges);
+        console.log(`Saved as sweep #${sweepId} (${results.length} results)\n`);
+      }
+      sweep.printRecentSweeps();
+    }
+
+    if (process.argv.includes("--walk-forward")) {
+      // --train-days <n> builds each filter matrix (default: the live filter's window), --test-days <n> scores it
+      const { runWalkForward, printWalkForwardResults } = await import("./walkforward.js");
+      const dayFlag = (name: string, fallback: number) => {
+        const idx = process.argv.indexOf(name);
+        if (idx === -1) return fallback;
+        const value = parseInt(process.argv[idx + 1], 10);
+        if (isNaN(value) || value <= 0) {
+          console.error(`Invalid ${name} "${process.argv[idx + 1]}"`);
+          process.exit(1);
+        }
+        return value;
+      };
+      const trainDays = dayFlag("--train-days", BACKTEST_DAYS);
+      const testDays = dayFlag("--test-days", 1);
+
+      console.log(`[WalkForward] Filter: ${describeFilterOptions()}`);
+      const results = SERIES
+        .filter((s) => candleData.has(s.asset))
+        .map((s) => runWalkForward(s.asset, candleData.get(s.asset)!, s.duration, trainDays, testDays));
+      printWalkForwardResults(results);
     }
   })()
     .then(() => process.exit(0))
@@ -122,34 +568,105 @@ if (process.argv.includes("--vol") || process.argv.includes("--backtest")) {
       console.error("Fatal error:", err);
       process.exit(1);
     });
+} else if (process.argv.includes("--replay")) {
+  // --replay mode: drive the paper strategies from recorded market events
+  (async () => {
+    const { runReplay } = await import("./replay.js");
+
+    const flag = (name: string) => {
+      const idx = process.argv.indexOf(name);
+      return idx !== -1 ? process.argv[idx + 1] : undefined;
+    };
+    const fromMs = flag("--from") !== undefined ? parseTime(flag("--from")!) : 0;
+    const toMs = flag("--to") !== undefined ? parseTime(flag("--to")!) : Date.now();
+    if (fromMs === null || toMs === null || fromMs >= toMs) {
+      console.error("Invalid --from/--to. Use ISO dates or Unix timestamps with --from before --to.");
+      process.exit(1);
+    }
+
+    console.log(`=== PolyInnovatio - Replay (${SERIES.map(formatSeries).join(", ")}) ===\n`);
+    activateStrategies();
+    beginRun("replay", { source: flag("--source") ?? "trades.db", from: fromMs, to: toMs });
+
+    const summary = await runReplay({
+      sourcePath: flag("--source") ?? "trades.db",
+      fromMs,
+      toMs,
+      series: SERIES,
+    });
+    if (!summary) {
+      stopRun("error: replay could not start");
+      closeDb();
+      process.exit(1);
+    }
+
+    console.log(
+      `\n[Replay] Replayed ${summary.events} events across ${summary.markets} markets` +
+      (summary.unresolved > 0 ? ` (${summary.unresolved} unresolved)` : "")
+    );
+    printTradeStats("Replay Stats");
+    console.log("");
+  })()
+    .then(() => {
+      stopRun("finished");
+      closeDb();
+      process.exit(0);
+    })
+    .catch((err) => {
+      console.error("Fatal error:", err);
+      stopRun(`error: ${(err as Error).message}`);
+      closeDb();
+      process.exit(1);
+    });
 } else {
 
 // Main trading loop (paper)
 async function main() {
-  console.log("=== PolyInnovatio - XRP 5-Min Paper Trader ===\n");
+  requireMarketSeries("Paper trading");
+  console.log(`=== PolyInnovatio - ${SERIES.map(formatSeries).join(", ")} Paper Trader ===\n`);
+
+  activateStrategies();
+  beginRun("paper");
+
+  // One market connection shared by every series and window
+  const feed = connectMarketFeed({ staleAfterMs: WS_STALE_MS });
 
   // Handle graceful shutdown
   process.on("SIGINT", () => {
     console.log("\n\nShutting down...\n");
     stopResolutionLoop();
+    stopStaleSweeper();
+    stopRecorder();
+    feed.close();
     const stats = getTradeStats();
     console.log(`Session summary: ${stats.total} trades, P&L: ${stats.totalProfit >= 0 ? "+" : ""}$${stats.totalProfit.toFixed(2)}`);
+    console.log(`Market feed: ${describeFeedStats(feed.stats())}`);
     console.log(`Run 'npm start -- --stats' for full history.\n`);
+    stopRun("sigint");
     closeDb();
     process.exit(0);
   });
 
+  if (IS_RECORDING) startRecorder();
+
   // Start background resolution loop — picks up pending trades from previous runs too
   startResolutionLoop();
   console.log("[Main] Background resolution loop started (every 10s)");
+  startStaleSweeper();
+  console.log("[Main] Stale-trade sweeper started (every 5m, trades older than 1h)");
 
-  const MAX_FETCH_RETRIES = 3;
+  // One window loop per series, all sharing the same strategies, DB and market connection
+  await Promise.all(SERIES.map((series) => runPaperSeries(series, feed, SERIES.length === 1)));
+}
+
+/** Paper-trade consecutive windows of one market series. */
+async function runPaperSeries(series: MarketSeries, feed: MarketFeed, showStatus: boolean) {
+  let prefetched: PrefetchedWindow | null = null;
 
   while (true) {
-    const slug = getCurrentMarketSlug();
+    const slug = getCurrentMarketSlug(series);
     const endTime = getMarketEndTime(slug);
-    const now = Date.now();
-    const remaining = endTime - now;
+    const remaining = endTime - now();
 
     if (remaining < 5000) {
       // Less than 5 seconds left, skip to next window
@@ -161,73 +678,112 @@ async function main() {
     console.log(`\n[Main] Current market: ${slug}`);
     console.log(`[Main] Window ends in ${Math.round(remaining / 1000)}s`);
 
-    // Discover market with retry cap
-    let market: MarketInfo | "closed" | null = null;
-    let fetchRetries = 0;
-
-    while (!market) {
-      market = await fetchMarket(slug);
+    // Usually found during the previous window; otherwise look it up now
+    let market = prefetched?.slug === slug ? await prefetched.market : null;
+    market ??= await discoverMarket(slug);
 
-      if (market === "closed") {
-        console.log("[Main] Market already closed/resolved, skipping to next window...");
-        const waitTime = getMarketEndTime(slug) - Date.now();
-        if (waitTime > 0) await sleep(waitTime);
-        break;
-      }
+    // Find the next window while this one runs, so its books are warm at open
+    prefetched = prefetchNextWindow(slug, feed);
 
-      if (!market) {
-        fetchRetries++;
-        if (fetchRetries >= MAX_FETCH_RETRIES) {
-          console.log("[Main] Market not found after 3 attempts, skipping to next window...");
-          const waitTime = getMarketEndTime(slug) - Date.now();
-          if (waitTime > 0) await sleep(waitTime);
-          break;
-        }
-        console.log("[Main] Market not found, waiting 10s and retrying...");
-        await sleep(10_000);
-      }
+    if (market === "closed") {
+      console.log("[Main] Market already closed/resolved, skipping to next window...");
+      const waitTime = getMarketEndTime(slug) - now();
+      if (waitTime > 0) await sleep(waitTime);
+      continue;
+    }
+    if (!market) {
+      console.log("[Main] Market not found after 3 attempts, skipping to next window...");
+      const waitTime = getMarketEndTime(slug) - now();
+      if (waitTime > 0) await sleep(waitTime);
+      continue;
     }
-
-    if (!market || market === "closed") continue;
 
     console.log(`[Main] Up token:   ${market.upTokenId.slice(0, 16)}...`);
     console.log(`[Main] Down token: ${market.downTokenId.slice(0, 16)}...`);
 
+    startMarketWindow(market);
+    recordMarket(market);
+
     // Also fetch initial REST prices
-    await fetchInitialPrices(market);
-
-    // Connect WebSocket
-    const ws = connectMarketWs(
-      [market.upTokenId, market.downTokenId],
-      (tokenId, price) => {
-        handlePriceUpdate(market, tokenId, price);
-        printStatus(market);
-      }
+    await fetchInitialPrices(market, showStatus);
+
+    // Listen on the shared connection — already subscribed if the window was prefetched
+    const tokenIds = [market.upTokenId, market.downTokenId];
+    feed.subscribe(tokenIds, endTime + TOKEN_GRACE_MS);
+    const stopWatching = feed.watch(
+      tokenIds,
+      (tokenId, price, book, receivedAt) => {
+        handlePriceUpdate(market, tokenId, price, book, receivedAt);
+        if (showStatus) printStatus(market);
+      },
+      recorderCallback(market)
     );
 
     // Wait until market window ends, but skip early if market settles
-    let timeLeft = endTime - Date.now();
+    let timeLeft = endTime - now();
     while (timeLeft > 0) {
       await sleep(Math.min(1000, timeLeft));
-      if (isMarketSettled()) {
+      checkPositionExits(market);
+      if (isMarketSettled(slug)) {
         console.log(`\n[Main] Market settled early, moving to next window...`);
         break;
       }
-      timeLeft = endTime - Date.now();
+      timeLeft = endTime - now();
     }
 
-    // Disconnect WS and clear per-market state
-    ws.close();
-    clearMarketState();
+    // Stop listening and clear per-market state; the feed drops the tokens once they expire
+    stopWatching();
+    clearMarketState(market);
 
     // Brief pause before next market
     await sleep(2000);
   }
 }
 
+/** A window looked up ahead of time by prefetchNextWindow. */
+interface PrefetchedWindow {
+  slug: string;
+  market: Promise<MarketInfo | "closed" | null>;
+}
+
+/** Look up the window after `slug` in the background and subscribe its tokens before it opens. */
+function prefetchNextWindow(slug: string, feed: MarketFeed): PrefetchedWindow {
+  const nextSlug = getNextMarketSlug(slug);
+  const market = discoverMarket(nextSlug).then((next) => {
+    if (next && next !== "closed") {
+      feed.subscribe([next.upTokenId, next.downTokenId], getMarketEndTime(nextSlug) + TOKEN_GRACE_MS);
+    }
+    return next;
+  });
+  return { slug: nextSlug, market };
+}
+
+/** Fetch a window's market, retrying a few times. Null if it never showed up. */
+async function discoverMarket(slug: string): Promise<MarketInfo | "closed" | null> {
+  const MAX_FETCH_RETRIES = 3;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const market = await fetchMarket(slug);
+      if (market) return market;
+    } catch (err) {
+      console.error(`[Main] Failed to fetch ${slug}:`, (err as Error).message);
+    }
+    if (attempt >= MAX_FETCH_RETRIES) return null;
+    console.log(`[Main] Market ${slug} not found, waiting 10s and retrying...`);
+    await sleep(10_000);
+  }
+}
+
 // Live trading loop
 async function mainLive() {
-  console.log("=== PolyInnovatio - XRP 5-Min LIVE Trader ===\n");
+  if (SERIES.length !== 1) {
+    console.error("[Main] Live mode trades a single series. Pass exactly one --series.");
+    process.exit(1);
+  }
+  requireMarketSeries("Live trading");
+  const [series] = SERIES;
+  console.log(`=== PolyInnovatio - ${formatSeries(series)} LIVE Trader ===\n`);
 
   // Init CLOB client
   const ok = await initClobClient();
@@ -236,8 +792,19 @@ async function mainLive() {
     process.exit(1);
   }
 
+  // Refuse to start while a risk halt is active
+  setRiskLimits(RISK_LIMITS);
+  const startupHalt = checkHalts();
+  if (startupHalt) {
+    console.error(`[Main] Live trading halted (${startupHalt.kind}): ${startupHalt.reason}`);
+    console.error("[Main] Run 'npm start -- --reset-risk' to clear halts, or remove the kill-switch file.");
+    closeDb();
+    process.exit(1);
+  }
+
   // Load hour/day filter matrix
-  const filterMatrix = await loadFilterMatrix();
+  console.log(`[Main] Hour/day filter: ${describeFilterOptions()}`);
+  const filterMatrix = await loadFilterMatrix(series);
   if (!filterMatrix) {
     console.error("[Main] Failed to load filter matrix, aborting live mode");
     process.exit(1);
@@ -250,14 +817,18 @@ async function mainLive() {
     closeDb();
     process.exit(0);
   }
+  beginRun("live", { riskLimits: RISK_LIMITS, filterMatrix });
 
   // Track active order for SIGINT cleanup
   let activeOrderId: string | null = null;
-  let activeWs: { close: () => void } | null = null;
-  let sessionPnL = 0;
+  let prefetched: PrefetchedWindow | null = null;
   let sessionTrades = 0;
   let fillAbortController: AbortController | null = null;
 
+  // One market connection for the whole session; each window's tokens are subscribed ahead of time.
+  // Created before the SIGINT handler, which closes it
+  const feed = connectMarketFeed({ staleAfterMs: WS_STALE_MS });
+
   // Handle graceful shutdown
   process.on("SIGINT", async () => {
     console.log("\n\n[Main] Shutting down live trader...\n");
@@ -273,39 +844,50 @@ async function mainLive() {
       await cancelAllOrders([activeOrderId]);
     }
 
-    // Close active WebSocket
-    if (activeWs) {
-      activeWs.close();
-    }
+    // Close WebSockets
+    feed.close();
+    stopUserFeed();
+    console.log(`Market feed: ${describeFeedStats(feed.stats())}`);
 
     stopResolutionLoop();
+    stopStaleSweeper();
+    stopRecorder();
     const stats = getTradeStats();
-    console.log(`Session: ${sessionTrades} trades, session P&L estimate: ${sessionPnL >= 0 ? "+" : ""}$${sessionPnL.toFixed(2)}`);
+    const risk = getRiskSnapshot();
+    console.log(`Session: ${sessionTrades} trades, today's live P&L: ${risk.dailyPnL >= 0 ? "+" : ""}$${risk.dailyPnL.toFixed(2)}`);
     console.log(`All-time: ${stats.total} trades, P&L: ${stats.totalProfit >= 0 ? "+" : ""}$${stats.totalProfit.toFixed(2)}`);
     console.log(`Run 'npm start -- --stats' for full history.\n`);
+    stopRun("sigint");
     closeDb();
     process.exit(0);
   });
 
+  if (IS_RECORDING) startRecorder();
+
+  // Order and fill events are pushed over the user channel; orders are polled only while it's down
+  startUserFeed();
+
   // Start background resolution loop
   startResolutionLoop();
   console.log("[Main] Background resolution loop started (every 10s)");
+  startStaleSweeper();
+  console.log("[Main] Stale-trade sweeper started (every 5m, trades older than 1h)");
 
-  const MAX_FETCH_RETRIES = 3;
-  const BUY_MAX_PRICE = 0.85;
+  let stopReason = "risk_halt";
 
   while (true) {
-    // Check session loss limit
-    if (sessionPnL <= -MAX_SESSION_LOSS) {
-      console.log(`\n[Main] Session loss limit reached ($${MAX_SESSION_LOSS}). Halting live trading.`);
-      console.log(`[Main] Session P&L: -$${Math.abs(sessionPnL).toFixed(2)} over ${sessionTrades} trades`);
+    // Check risk halts (loss limits, kill switch)
+    const activeHalt = checkHalts();
+    if (activeHalt) {
+      console.log(`\n[Main] Risk halt (${activeHalt.kind}): ${activeHalt.reason}. Halting live trading.`);
+      console.log(`[Main] ${sessionTrades} trades this session`);
+      stopReason = `risk_halt: ${activeHalt.kind}`;
       break;
     }
 
-    const slug = getCurrentMarketSlug();
+    const slug = getCurrentMarketSlug(series);
     const endTime = getMarketEndTime(slug);
-    const now = Date.now();
-    const remaining = endTime - now;
+    const remaining = endTime - now();
 
     // Need at least 30s for WS signal + order placement + fill polling
     if (remaining < 30000) {
@@ -314,71 +896,73 @@ async function mainLive() {
       continue;
     }
 
+    // Find the next window while this one runs, whether or not this one is traded
+    const current = prefetched?.slug === slug ? prefetched : null;
+    prefetched = prefetchNextWindow(slug, feed);
+
     // Check hour/day filter
     const cellInfo = getCurrentCellInfo(filterMatrix);
+    const { posterior } = cellInfo;
+    const cellSummary =
+      `${cellInfo.winRate !== null ? cellInfo.winRate.toFixed(0) + "%" : "N/A"} ` +
+      `(${cellInfo.trades} samples, ${(FILTER_OPTIONS.confidence * 100).toFixed(0)}% interval ` +
+      `${(posterior.lower * 100).toFixed(0)}–${(posterior.upper * 100).toFixed(0)}%, ` +
+      `P(>break-even) ${(posterior.probAboveBreakEven * 100).toFixed(0)}%)`;
     if (!shouldTrade(filterMatrix)) {
-      console.log(
-        `\n[Main] Skipping window — ${cellInfo.day} ${cellInfo.hour}:00 UTC win rate: ` +
-        `${cellInfo.winRate !== null ? cellInfo.winRate.toFixed(0) + "%" : "N/A"} ` +
-        `(${cellInfo.trades} samples, below 60% threshold)`
-      );
+      console.log(`\n[Main] Skipping window — ${cellInfo.day} ${cellInfo.hour}:00 UTC win rate: ${cellSummary}`);
       await sleep(remaining + 1000);
       continue;
     }
 
-    console.log(
-      `\n[Main] ${cellInfo.day} ${cellInfo.hour}:00 UTC — win rate: ` +
-      `${cellInfo.winRate !== null ? cellInfo.winRate.toFixed(0) + "%" : "N/A"} ` +
-      `(${cellInfo.trades} samples) — TRADING`
-    );
+    console.log(`\n[Main] ${cellInfo.day} ${cellInfo.hour}:00 UTC — win rate: ${cellSummary} — TRADING`);
 
     console.log(`[Main] Current market: ${slug}`);
     console.log(`[Main] Window ends in ${Math.round(remaining / 1000)}s`);
 
-    // Discover market with retry cap
-    let market: MarketInfo | "closed" | null = null;
-    let fetchRetries = 0;
-
-    while (!market) {
-      market = await fetchMarket(slug);
-
-      if (market === "closed") {
-        console.log("[Main] Market already closed/resolved, skipping to next window...");
-        const waitTime = getMarketEndTime(slug) - Date.now();
-        if (waitTime > 0) await sleep(waitTime);
-        break;
-      }
+    // Usually found during the previous window; otherwise look it up now
+    let market = current ? await current.market : null;
+    market ??= await discoverMarket(slug);
 
-      if (!market) {
-        fetchRetries++;
-        if (fetchRetries >= MAX_FETCH_RETRIES) {
-          console.log("[Main] Market not found after 3 attempts, skipping to next window...");
-          const waitTime = getMarketEndTime(slug) - Date.now();
-          if (waitTime > 0) await sleep(waitTime);
-          break;
-        }
-        console.log("[Main] Market not found, waiting 10s and retrying...");
-        await sleep(10_000);
-      }
+    if (market === "closed") {
+      console.log("[Main] Market already closed/resolved, skipping to next window...");
+      const waitTime = getMarketEndTime(slug) - now();
+      if (waitTime > 0) await sleep(waitTime);
+      continue;
+    }
+    if (!market) {
+      console.log("[Main] Market not found after 3 attempts, skipping to next window...");
+      const waitTime = getMarketEndTime(slug) - now();
+      if (waitTime > 0) await sleep(waitTime);
+      continue;
     }
-
-    if (!market || market === "closed") continue;
 
     console.log(`[Main] Up token:   ${market.upTokenId.slice(0, 16)}...`);
     console.log(`[Main] Down token: ${market.downTokenId.slice(0, 16)}...`);
 
-    // Step 1: Connect WebSocket and wait for a side to hit threshold
-    console.log(`[Main] Waiting for WS price signal (>= $${BUY_THRESHOLD.toFixed(2)}, <= $${BUY_MAX_PRICE.toFixed(2)})...`);
+    recordMarket(market);
+
+    // Step 1: Watch the market's tokens and wait for a side to hit threshold
+    console.log(`[Main] Waiting for WS best ask signal (>= $${BUY_THRESHOLD.toFixed(2)}, <= $${BUY_MAX_PRICE.toFixed(2)})...`);
 
-    const signal = await waitForPriceSignal(market, endTime);
-    activeWs = signal?.ws ?? null;
+    const signal = await waitForPriceSignal(feed, market, endTime);
 
     if (!signal) {
       console.log(`[Main] No price signal this window, moving on`);
       continue;
     }
 
-    const { side, tokenId, price: triggerPrice, ws: marketWs } = signal;
+    const { side, tokenId, price: triggerPrice, stop: stopWatching, bids } = signal;
+
+    // Risk gate right before the order, so the kill switch takes effect at once
+    const blocked = checkNewOrder(POSITION_SIZE);
+    if (blocked) {
+      console.log(`\n[Risk] Not placing order: ${blocked}`);
+      stopWatching();
+      const waitTime = endTime - now();
+      if (waitTime > 0) await sleep(waitTime);
+      continue;
+    }
+
     console.log(`\n[Main] Signal: ${side} @ $${triggerPrice.toFixed(2)} — placing order`);
 
     // Step 2: Place single order on the triggered side
@@ -386,74 +970,142 @@ async function mainLive() {
 
     if (!orderResult) {
       console.log("[Main] Failed to place order, skipping window...");
-      marketWs.close();
-      activeWs = null;
-      const waitTime = endTime - Date.now();
+      stopWatching();
+      const waitTime = endTime - now();
       if (waitTime > 0) await sleep(waitTime);
       continue;
     }
 
     activeOrderId = orderResult.orderId;
 
-    // Step 3: Poll for fill with abort at window end
+    // Step 3: Track the order until filled; the remainder is cancelled at window end
     fillAbortController = new AbortController();
-    const timeUntilEnd = endTime - Date.now() - 2000; // 2s safety margin
-    const abortTimeout = setTimeout(() => fillAbortController!.abort(), Math.max(0, timeUntilEnd));
-
-    const fill = await waitForOrderFill(orderResult.orderId, fillAbortController.signal);
+    const timeUntilEnd = endTime - now() - 2000; // 2s safety margin
+    const abortTimeout = setTimeout(() => fillAbortController!.abort("deadline"), Math.max(0, timeUntilEnd));
+
+    // The trade is recorded on the first fill and updated as the order fills further
+    const entry = { tradeId: null as number | null };
+    const order = await trackOrder(orderResult.orderId, fillAbortController.signal, (state) => {
+      if (entry.tradeId === null) {
+        entry.tradeId = insertLiveTrade(
+          slug,
+          market.conditionId,
+          tokenId,
+          side,
+          state.avgPrice!,
+          orderResult.orderId,
+          "",  // no cancelled counter-order
+          state.sizeMatched,
+          DEFAULT_STRATEGY_ID
+        );
+        linkOrderToTrade(orderResult.orderId, entry.tradeId);
+      } else {
+        updateLiveTradeFill(entry.tradeId, state.avgPrice!, state.sizeMatched);
+      }
+    });
 
     clearTimeout(abortTimeout);
     activeOrderId = null;
     fillAbortController = null;
 
-    // Disconnect WS — done with this window
-    marketWs.close();
-    activeWs = null;
-
-    if (fill) {
-      // Record the trade
-      const tradeId = insertLiveTrade(
-        slug,
-        market.conditionId,
-        tokenId,
-        side,
-        fill.fillPrice,
-        orderResult.orderId,
-        "",  // no cancelled counter-order
-        fill.fillSize
-      );
-
-      const estimatedCost = fill.fillPrice * fill.fillSize;
+    const tradeId = entry.tradeId;
+    if (order && tradeId !== null && order.avgPrice !== null) {
+      const fillPrice = order.avgPrice;
+      const fillSize = order.sizeMatched;
+      const estimatedCost = fillPrice * fillSize;
       sessionTrades++;
 
       console.log(
-        `\n>>> LIVE BUY: ${side} @ $${fill.fillPrice.toFixed(2)} ` +
-        `x ${fill.fillSize} = $${estimatedCost.toFixed(2)} ` +
-        `(trade #${tradeId}, market: ${slug})`
+        `\n>>> LIVE BUY: ${side} @ avg $${fillPrice.toFixed(4)} ` +
+        `x ${fillSize}/${order.originalSize} = $${estimatedCost.toFixed(2)} ` +
+        `[${order.status}, ${order.fills.length} fill(s)] (trade #${tradeId}, market: ${slug})`
       );
+
+      // Step 4: Watch the held token's bid for an early exit
+      if (hasExitRules(EXIT_RULES)) {
+        const exit = await waitForExitSignal(tokenId, endTime, bids);
+
+        if (exit && exit.bid === null) {
+          console.log(`[Main] Exit rule ${exit.reason} hit but no bid to sell into, holding to resolution`);
+        } else if (exit && exit.bid !== null) {
+          console.log(`\n[Main] Exit rule ${exit.reason} hit (bid $${exit.bid.toFixed(2)}) — selling`);
+          const sellResult = await placeSellOrder(tokenId, exit.bid, fillSize, tradeId);
+
+          if (sellResult) {
+            activeOrderId = sellResult.orderId;
+            fillAbortController = new AbortController();
+            const sellAbortTimeout = setTimeout(
+              () => fillAbortController!.abort("deadline"),
+              Math.max(0, endTime - now() - 1000)
+            );
+            const sold = await trackOrder(sellResult.orderId, fillAbortController.signal);
+            clearTimeout(sellAbortTimeout);
+            activeOrderId = null;
+            fillAbortController = null;
+
+            if (sold?.status === "filled" && sold.avgPrice !== null) {
+              exitTrade(tradeId, sold.avgPrice, fillPrice, exit.reason);
+              onLiveTradeClosed();
+              const exitProfit = (sold.avgPrice - fillPrice) * fillSize;
+              console.log(
+                `\n<<< LIVE SELL: ${side} @ avg $${sold.avgPrice.toFixed(4)} x ${sold.sizeMatched} ` +
+                `(${exit.reason}, trade #${tradeId}) | profit: ${exitProfit >= 0 ? "+" : ""}$${exitProfit.toFixed(2)}`
+              );
+            } else if (sold && sold.sizeMatched > 0 && sold.avgPrice !== null) {
+              // Book what was sold; only the unsold shares ride to resolution
+              partialExitTrade(tradeId, sold.sizeMatched, sold.avgPrice, exit.reason);
+              const exitProfit = (sold.avgPrice - fillPrice) * sold.sizeMatched;
+              console.log(
+                `[Main] Exit sold only ${sold.sizeMatched}/${fillSize} shares @ avg $${sold.avgPrice.toFixed(4)} ` +
+                `(${exitProfit >= 0 ? "+" : ""}$${exitProfit.toFixed(2)}), rest held to resolution`
+              );
+            } else {
+              console.log(`[Main] Exit order not filled, holding to resolution`);
+            }
+          }
+        }
+      }
     } else {
-      console.log(`[Main] No fill this window, order cancelled`);
+      console.log(`[Main] No fill this window, order ${order?.status ?? "cancelled"}`);
     }
 
+    // Stop listening — done with this window
+    stopWatching();
+
     // Wait for market window to end
-    const waitTime = endTime - Date.now();
+    const waitTime = endTime - now();
     if (waitTime > 0) await sleep(waitTime);
 
     // Brief pause before next market
     await sleep(2000);
   }
 
-  // Session ended (loss limit reached)
+  // Session ended (risk halt)
+  feed.close();
+  stopUserFeed();
   stopResolutionLoop();
+  stopStaleSweeper();
+  stopRecorder();
+  stopRun(stopReason);
   closeDb();
 }
 
-/** Connect WS to market tokens, resolve when one side hits threshold. */
+/**
+ * Watch the market's tokens on the shared feed, resolve when one side's best ask — the
+ * price a buy pays — is inside the band. Only synced books count.
+ */
 function waitForPriceSignal(
+  feed: MarketFeed,
   market: MarketInfo,
   windowEndTime: number
-): Promise<{ side: "Up" | "Down"; tokenId: string; price: number; ws: { close: () => void } } | null> {
-  const BUY_MAX_PRICE = 0.85;
+): Promise<{
+  side: "Up" | "Down";
+  tokenId: string;
+  price: number; // best ask that triggered the signal
+  stop: () => void; // stop listening to the market's tokens
+  bids: Map<string, number>; // latest best bid per token, kept updated until stopped
+} | null> {
+  const bids = new Map<string, number>();
 
   return new Promise((resolve) => {
     let resolved = false;
@@ -461,16 +1113,26 @@ function waitForPriceSignal(
     const timeout = setTimeout(() => {
       if (!resolved) {
         resolved = true;
-        ws.close();
+        stopWatching();
         resolve(null);
       }
-    }, Math.max(0, windowEndTime - Date.now() - 15000)); // 15s before end to leave time for order
+    }, Math.max(0, windowEndTime - now() - 15000)); // 15s before end to leave time for order
+
+    // Called lazily — watch() may report a cached book before it returns
+    const stop = () => stopWatching();
 
-    const ws = connectMarketWs(
-      [market.upTokenId, market.downTokenId],
-      (tokenId, price) => {
+    const tokenIds = [market.upTokenId, market.downTokenId];
+    feed.subscribe(tokenIds, windowEndTime + TOKEN_GRACE_MS);
+    const stopWatching = feed.watch(
+      tokenIds,
+      (tokenId, _bid, book, receivedAt) => {
+        if (book?.bestBid != null) bids.set(tokenId, book.bestBid);
         if (resolved) return;
+        if (!book?.synced || book.bestAsk === null) return;
+        const price = book.bestAsk;
         if (price < BUY_THRESHOLD || price > BUY_MAX_PRICE) return;
+        // Never enter on a price the feed delivered too long ago
+        if (now() - receivedAt > MAX_PRICE_AGE_MS) return;
 
         let side: "Up" | "Down";
         if (tokenId === market.upTokenId) {
@@ -483,14 +1145,15 @@ function waitForPriceSignal(
 
         resolved = true;
         clearTimeout(timeout);
-        resolve({ side, tokenId, price, ws });
-      }
+        resolve({ side, tokenId, price, stop, bids });
+      },
+      recorderCallback(market)
     );
 
-    // REST bootstrap: check prices immediately instead of waiting for WS
+    // REST bootstrap: check prices immediately instead of waiting for WS (side=SELL is the best ask)
     const checkRest = (tokenId: string, side: "Up" | "Down") =>
       fetchWithTimeout(
-        `https://clob.polymarket.com/price?token_id=${tokenId}&side=BUY`
+        `${CLOB_HOST}/price?token_id=${tokenId}&side=SELL`
       )
         .then((res) => (res.ok ? res.json() : null))
         .then((data) => {
@@ -499,7 +1162,7 @@ function waitForPriceSignal(
           if (!isNaN(price) && price >= BUY_THRESHOLD && price <= BUY_MAX_PRICE) {
             resolved = true;
             clearTimeout(timeout);
-            resolve({ side, tokenId, price, ws });
+            resolve({ side, tokenId, price, stop, bids });
           }
         })
         .catch(() => {}); // REST failed, rely on WS
@@ -509,6 +1172,21 @@ function waitForPriceSignal(
   });
 }
 
+/** Poll the held token's bid until an exit rule fires, or the window is about to end. */
+async function waitForExitSignal(
+  tokenId: string,
+  windowEndTime: number,
+  bids: Map<string, number>
+): Promise<{ reason: ExitReason; bid: number | null } | null> {
+  while (windowEndTime - now() > 2000) {
+    const bid = bids.get(tokenId) ?? null;
+    const reason = checkExit(EXIT_RULES, bid, windowEndTime - now());
+    if (reason) return { reason, bid };
+    await sleep(500);
+  }
+  return null;
+}
+
 async function confirmLiveTrading(): Promise<boolean> {
   const wallet = getWalletAddress();
 
@@ -517,7 +1195,9 @@ async function confirmLiveTrading(): Promise<boolean> {
   console.log("╠══════════════════════════════════════════════════╣");
   console.log(`║  Wallet:    ${wallet.slice(0, 10)}...${wallet.slice(-8)}`.padEnd(51) + "║");
   console.log(`║  Size:      $${POSITION_SIZE} per order`.padEnd(51) + "║");
-  console.log(`║  Loss limit: $${MAX_SESSION_LOSS} per session`.padEnd(51) + "║");
+  console.log(`║  Loss limit: $${RISK_LIMITS.dailyLoss} per day, ${RISK_LIMITS.maxConsecutiveLosses} in a row`.padEnd(51) + "║");
+  console.log(`║  Exposure:  $${RISK_LIMITS.maxOpenExposure} open, ${RISK_LIMITS.maxTradesPerHour} trades/hour`.padEnd(51) + "║");
+  console.log(`║  Exits:     ${describeExitRules(EXIT_RULES)}`.padEnd(51) + "║");
   console.log("║                                                  ║");
   console.log("║  This will place REAL orders with REAL money!    ║");
   console.log("╠══════════════════════════════════════════════════╣");
@@ -534,14 +1214,14 @@ async function confirmLiveTrading(): Promise<boolean> {
   });
 }
 
-async function fetchInitialPrices(market: MarketInfo) {
+async function fetchInitialPrices(market: MarketInfo, showStatus = true) {
   try {
     const [upRes, downRes] = await Promise.all([
       fetchWithTimeout(
-        `https://clob.polymarket.com/price?token_id=${market.upTokenId}&side=BUY`
+        `${CLOB_HOST}/price?token_id=${market.upTokenId}&side=BUY`
       ),
       fetchWithTimeout(
-        `https://clob.polymarket.com/price?token_id=${market.downTokenId}&side=BUY`
+        `${CLOB_HOST}/price?token_id=${market.downTokenId}&side=BUY`
       ),
     ]);
 
@@ -561,7 +1241,7 @@ async function fetchInitialPrices(market: MarketInfo) {
       }
     }
 
-    printStatus(market);
+    if (showStatus) printStatus(market);
   } catch (err) {
     console.error("[Main] Failed to fetch initial prices:", err);
   }
@@ -572,13 +1252,19 @@ function printStatus(market: MarketInfo) {
   const upPrice = prices.get(market.upTokenId);
   const downPrice = prices.get(market.downTokenId);
   const bet = hasBet(market.slug) ? " [BET PLACED]" : "";
-  const remaining = Math.max(0, getMarketEndTime(market.slug) - Date.now());
+  const remaining = Math.max(0, getMarketEndTime(market.slug) - now());
 
   process.stdout.write(
     `\r[${market.slug}] Up: $${upPrice?.toFixed(2) ?? "?.??"} | Down: $${downPrice?.toFixed(2) ?? "?.??"}${bet} | ${Math.round(remaining / 1000)}s left   `
   );
 }
 
+/** Raw-event hook that tags events with the market slug, or undefined when not recording. */
+function recorderCallback(market: MarketInfo): RawEventCallback | undefined {
+  if (!IS_RECORDING) return undefined;
+  return (tokenId, eventType, msg) => recordEvent(market.slug, tokenId, eventType, msg);
+}
+
 function sleep(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
@@ -586,15 +1272,17 @@ function sleep(ms: number): Promise<void> {
 if (IS_LIVE) {
   mainLive().catch((err) => {
     console.error("Fatal error:", err);
+    stopRun(`error: ${(err as Error).message}`);
     closeDb();
     process.exit(1);
   });
 } else {
   main().catch((err) => {
     console.error("Fatal error:", err);
+    stopRun(`error: ${(err as Error).message}`);
     closeDb();
     process.exit(1);
   });
 }
 
-} // end else (--vol / --backtest guard)
+} // end else (candle modes / --replay guard)
@@ -1,4 +1,6 @@
-const GAMMA_API = "https://gamma-api.polymarket.com";
+import { now } from "./clock.js";
+import { ASSETS, type Asset } from "./candles.js";
+import { GAMMA_API } from "./endpoints.js";
 
 const FETCH_TIMEOUT = 10_000;
 
@@ -13,15 +15,68 @@ export interface MarketInfo {
   downTokenId: string;
 }
 
-export function getCurrentMarketSlug(): string {
-  const nowSec = Math.floor(Date.now() / 1000);
-  const ts = Math.floor(nowSec / 300) * 300;
-  return `xrp-updown-5m-${ts}`;
+export type WindowDuration = "5m" | "15m" | "1h";
+
+export const WINDOW_SECONDS: Record<WindowDuration, number> = {
+  "5m": 300,
+  "15m": 900,
+  "1h": 3600,
+};
+
+/**
+ * Durations with Polymarket markets at "<asset>-updown-<duration>-<ts>" slugs. Hourly Up/Down
+ * events use another slug scheme that isn't built here, so "1h" is for candle backtests only.
+ */
+export const MARKET_DURATIONS: WindowDuration[] = ["5m", "15m"];
+
+/** An Up/Down market series, e.g. XRP 5-minute windows. */
+export interface MarketSeries {
+  asset: Asset;
+  duration: WindowDuration;
+}
+
+export const DEFAULT_SERIES: MarketSeries = { asset: "XRP", duration: "5m" };
+
+/** Parse a series spec like "btc-15m". Returns null if asset or duration is unknown. */
+export function parseSeries(spec: string): MarketSeries | null {
+  const [assetPart, durationPart] = spec.trim().split("-");
+  const asset = assetPart?.toUpperCase() as Asset;
+  const duration = durationPart?.toLowerCase() as WindowDuration;
+  if (!ASSETS.includes(asset) || !(duration in WINDOW_SECONDS)) return null;
+  return { asset, duration };
+}
+
+export function formatSeries(series: MarketSeries): string {
+  return `${series.asset.toLowerCase()}-${series.duration}`;
+}
+
+/** Slug prefix shared by every market in a series, e.g. "xrp-updown-5m-". */
+export function getSeriesSlugPrefix(series: MarketSeries): string {
+  return `${series.asset.toLowerCase()}-updown-${series.duration}-`;
+}
+
+export function getCurrentMarketSlug(series: MarketSeries = DEFAULT_SERIES): string {
+  const windowSec = WINDOW_SECONDS[series.duration];
+  const nowSec = Math.floor(now() / 1000);
+  const ts = Math.floor(nowSec / windowSec) * windowSec;
+  return `${getSeriesSlugPrefix(series)}${ts}`;
+}
+
+/** Slug of the window that starts when this one ends. */
+export function getNextMarketSlug(slug: string): string {
+  const prefix = slug.slice(0, slug.lastIndexOf("-") + 1);
+  return `${prefix}${getMarketEndTime(slug) / 1000}`;
+}
+
+/** Window length in seconds, read from a "<asset>-updown-<duration>-<ts>" slug. */
+export function getWindowSeconds(slug: string): number {
+  const parts = slug.split("-");
+  return WINDOW_SECONDS[parts[parts.length - 2] as WindowDuration] ?? WINDOW_SECONDS["5m"];
 }
 
 export function getMarketEndTime(slug: string): number {
   const ts = parseInt(slug.split("-").pop()!, 10);
-  return (ts + 300) * 1000; // end time in ms
+  return (ts + getWindowSeconds(slug)) * 1000; // end time in ms
 }
 
 export async function fetchMarket(slug: string): Promise<MarketInfo | "closed" | null> {
@@ -94,9 +149,23 @@ export async function fetchMarket(slug: string): Promise<MarketInfo | "closed" |
   return { slug, conditionId, upTokenId, downTokenId };
 }
 
-export async function checkResolution(
-  slug: string
-): Promise<"Up" | "Down" | null> {
+/** Settlement details of one market, as far as Gamma reports them. */
+export interface MarketResolution {
+  outcome: "Up" | "Down" | null;  // null until resolved
+  closed: boolean;
+  upPrice: number | null;         // final (or latest) outcome token prices
+  downPrice: number | null;
+  startPrice: number | null;      // oracle reference prices, when the event carries them
+  endPrice: number | null;
+}
+
+function parseOptionalNumber(value: unknown): number | null {
+  const n = typeof value === "number" ? value : parseFloat(String(value));
+  return value === undefined || value === null || isNaN(n) ? null : n;
+}
+
+/** Outcome, final token prices and oracle prices for a market. Null when the event can't be read. */
+export async function fetchMarketResolution(slug: string): Promise<MarketResolution | null> {
   const url = `${GAMMA_API}/events?slug=${slug}`;
   const res = await fetchWithTimeout(url);
 
@@ -110,7 +179,8 @@ export async function checkResolution(
   }
   if (!Array.isArray(data) || data.length === 0) return null;
 
-  const market = data[0].markets?.[0];
+  const event = data[0];
+  const market = event.markets?.[0];
   if (!market) return null;
 
   let outcomes: string[];
@@ -124,17 +194,38 @@ export async function checkResolution(
 
   if (outcomes.length !== outcomePrices.length) return null;
 
+  const priceOf = (label: string) => {
+    const i = outcomes.findIndex((o) => o.toLowerCase() === label);
+    return i === -1 ? null : parseOptionalNumber(outcomePrices[i]);
+  };
+
   // Market is resolved when: `resolved` flag is true, OR the market is
   // closed and one outcome price is >= 0.999 (Gamma sometimes leaves
   // `resolved` as null even after settlement, and prices may be "0.9999").
+  let outcome: "Up" | "Down" | null = null;
   const hasWinner = outcomePrices.some((p) => parseFloat(p) >= 0.999);
-  if (!market.resolved && !(market.closed && hasWinner)) return null;
-
-  for (let i = 0; i < outcomes.length; i++) {
-    if (parseFloat(outcomePrices[i]) >= 0.999) {
-      return outcomes[i] as "Up" | "Down";
+  if (market.resolved || (market.closed && hasWinner)) {
+    for (let i = 0; i < outcomes.length; i++) {
+      if (parseFloat(outcomePrices[i]) >= 0.999) {
+        outcome = outcomes[i] as "Up" | "Down";
+        break;
+      }
     }
   }
 
-  return null;
+  // Up/Down events carry the oracle's open and settlement prices in eventMetadata
+  return {
+    outcome,
+    closed: Boolean(market.closed),
+    upPrice: priceOf("up"),
+    downPrice: priceOf("down"),
+    startPrice: parseOptionalNumber(event.eventMetadata?.priceToBeat),
+    endPrice: parseOptionalNumber(event.eventMetadata?.finalPrice),
+  };
+}
+
+export async function checkResolution(
+  slug: string
+): Promise<"Up" | "Down" | null> {
+  return (await fetchMarketResolution(slug))?.outcome ?? null;
 }
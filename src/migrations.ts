@@ -0,0 +1,312 @@
+import fs from "node:fs";
+import type Database from "better-sqlite3";
+import { toSqlDateTime } from "./clock.js";
+
+/** One numbered schema change. Applied once, in order, inside a transaction. */
+interface Migration {
+  version: number;
+  name: string;
+  up: (db: Database.Database) => void;
+}
+
+/**
+ * Add a column unless the table already has it. Only for migrations that existing
+ * databases may have partly applied before schema versions were recorded.
+ */
+function addColumnIfMissing(db: Database.Database, table: string, column: string, definition: string): void {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+  if (!columns.some((c) => c.name === column)) {
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
+
+// Append only: never edit or renumber a migration that has shipped
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: "trades with live trading, strategy, paper fill and exit columns",
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS trades (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          market_slug TEXT NOT NULL,
+          condition_id TEXT NOT NULL,
+          token_id TEXT NOT NULL,
+          side TEXT NOT NULL,
+          buy_price REAL NOT NULL,
+          outcome TEXT,
+          payout REAL,
+          profit REAL,
+          created_at TEXT DEFAULT (datetime('now')),
+          resolved_at TEXT
+        )
+      `);
+      for (const [column, definition] of [
+        ["order_id", "TEXT"],
+        ["cancel_order_id", "TEXT"],
+        ["mode", "TEXT NOT NULL DEFAULT 'paper'"],
+        ["size", "REAL NOT NULL DEFAULT 1.0"],
+        ["strategy_id", "TEXT NOT NULL DEFAULT 'threshold'"],
+        ["requested_size", "REAL"],
+        ["signal_price", "REAL"],
+        ["exit_price", "REAL"],
+        ["exit_time", "TEXT"],
+        ["exit_reason", "TEXT"],
+      ]) {
+        addColumnIfMissing(db, "trades", column, definition);
+      }
+    },
+  },
+  {
+    // Raw market WebSocket events, written by the opt-in recorder
+    version: 2,
+    name: "market recorder",
+    up: (db) => db.exec(`
+      CREATE TABLE IF NOT EXISTS recorded_markets (
+        slug TEXT PRIMARY KEY,
+        condition_id TEXT NOT NULL,
+        up_token_id TEXT NOT NULL,
+        down_token_id TEXT NOT NULL,
+        end_time INTEGER NOT NULL,
+        recorded_at INTEGER NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS market_events (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        received_at INTEGER NOT NULL,
+        market_slug TEXT NOT NULL,
+        token_id TEXT NOT NULL,
+        event_type TEXT NOT NULL,
+        payload TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_market_events_received ON market_events (received_at);
+      CREATE INDEX IF NOT EXISTS idx_market_events_slug ON market_events (market_slug, received_at);
+    `),
+  },
+  {
+    // Live risk manager halts — persisted so a restart doesn't reset them
+    version: 3,
+    name: "risk halts",
+    up: (db) => db.exec(`
+      CREATE TABLE IF NOT EXISTS risk_halts (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        kind TEXT NOT NULL,
+        reason TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        expires_at TEXT,
+        cleared_at TEXT
+      )
+    `),
+  },
+  {
+    // Live order lifecycle and every fill event, linked to the trade they belong to
+    version: 4,
+    name: "orders and fills",
+    up: (db) => db.exec(`
+      CREATE TABLE IF NOT EXISTS orders (
+        id TEXT PRIMARY KEY,
+        trade_id INTEGER,
+        token_id TEXT NOT NULL,
+        side TEXT NOT NULL,
+        price REAL NOT NULL,
+        size REAL NOT NULL,
+        size_matched REAL NOT NULL DEFAULT 0,
+        status TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS fills (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        order_id TEXT NOT NULL,
+        trade_id INTEGER,
+        price REAL NOT NULL,
+        size REAL NOT NULL,
+        filled_at INTEGER NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_fills_order ON fills (order_id);
+    `),
+  },
+  {
+    // Backtest parameter sweeps, one row per configuration tried, kept to compare sweeps over time
+    version: 5,
+    name: "backtest sweeps",
+    up: (db) => db.exec(`
+      CREATE TABLE IF NOT EXISTS sweeps (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        created_at TEXT NOT NULL,
+        duration TEXT NOT NULL,
+        assets TEXT NOT NULL,
+        candle_days INTEGER NOT NULL,
+        ranges TEXT NOT NULL,
+        combinations INTEGER NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS sweep_results (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        sweep_id INTEGER NOT NULL,
+        asset TEXT NOT NULL,
+        buy_price REAL NOT NULL,
+        lookahead_candles INTEGER NOT NULL,
+        min_move REAL NOT NULL,
+        hours TEXT NOT NULL,
+        days TEXT NOT NULL,
+        trades INTEGER NOT NULL,
+        wins INTEGER NOT NULL,
+        win_rate REAL NOT NULL,
+        total_profit REAL NOT NULL,
+        max_drawdown REAL NOT NULL,
+        max_consecutive_losses INTEGER NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_sweep_results_sweep ON sweep_results (sweep_id);
+    `),
+  },
+  {
+    // Cached 1m exchange candles, so backtests only download what's missing
+    version: 6,
+    name: "candle cache",
+    up: (db) => db.exec(`
+      CREATE TABLE IF NOT EXISTS candles (
+        source TEXT NOT NULL,
+        symbol TEXT NOT NULL,
+        open_time INTEGER NOT NULL,
+        open REAL NOT NULL,
+        high REAL NOT NULL,
+        low REAL NOT NULL,
+        close REAL NOT NULL,
+        volume REAL NOT NULL,
+        close_time INTEGER NOT NULL,
+        PRIMARY KEY (source, symbol, open_time)
+      ) WITHOUT ROWID
+    `),
+  },
+  {
+    // Harvested Polymarket settlements, to score backtests against real outcomes
+    version: 7,
+    name: "market resolutions",
+    up: (db) => db.exec(`
+      CREATE TABLE IF NOT EXISTS market_resolutions (
+        slug TEXT PRIMARY KEY,
+        asset TEXT NOT NULL,
+        duration TEXT NOT NULL,
+        start_time INTEGER NOT NULL,
+        end_time INTEGER NOT NULL,
+        outcome TEXT,
+        start_price REAL,
+        end_price REAL,
+        up_price REAL,
+        down_price REAL,
+        harvested_at INTEGER NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_market_resolutions_series ON market_resolutions (asset, duration, start_time);
+    `),
+  },
+  {
+    // Stale-trade sweeper backoff and timeout reasons
+    version: 8,
+    name: "trade resolution retries",
+    up: (db) => {
+      addColumnIfMissing(db, "trades", "resolve_attempts", "INTEGER NOT NULL DEFAULT 0");
+      addColumnIfMissing(db, "trades", "next_resolve_at", "TEXT");
+      addColumnIfMissing(db, "trades", "timeout_reason", "TEXT");
+    },
+  },
+  {
+    // One row per trader process, so every trade can be traced to the settings that placed it
+    version: 9,
+    name: "runs",
+    up: (db) => db.exec(`
+      CREATE TABLE runs (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        mode TEXT NOT NULL,
+        started_at TEXT NOT NULL,
+        stopped_at TEXT,
+        stop_reason TEXT,
+        host TEXT NOT NULL,
+        pid INTEGER NOT NULL,
+        code_version TEXT,
+        argv TEXT NOT NULL,
+        config TEXT NOT NULL
+      );
+      ALTER TABLE trades ADD COLUMN run_id INTEGER REFERENCES runs (id);
+      CREATE INDEX idx_trades_run ON trades (run_id);
+    `),
+  },
+  {
+    // Profit already booked by exit sells that filled only part of a position
+    version: 10,
+    name: "partial exits",
+    up: (db) => db.exec(`
+      ALTER TABLE trades ADD COLUMN realized_profit REAL NOT NULL DEFAULT 0
+    `),
+  },
+  {
+    // Minutes the exchanges returned no candles for, so they aren't requested again every run
+    version: 11,
+    name: "candle gaps",
+    up: (db) => db.exec(`
+      CREATE TABLE candle_gaps (
+        symbol TEXT NOT NULL,
+        start_time INTEGER NOT NULL,
+        end_time INTEGER NOT NULL,
+        checked_at INTEGER NOT NULL,
+        PRIMARY KEY (symbol, start_time)
+      ) WITHOUT ROWID
+    `),
+  },
+];
+
+export const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+export interface MigrationResult {
+  from: number;
+  to: number;
+  backupPath: string | null; // copy of the database taken before upgrading
+}
+
+/**
+ * Bring the database up to SCHEMA_VERSION. Refuses a database written by newer code,
+ * and backs up an existing database before changing it.
+ */
+export function migrate(db: Database.Database, dbPath: string): MigrationResult {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TEXT NOT NULL
+    )
+  `);
+
+  const current = (db.prepare("SELECT MAX(version) AS version FROM schema_migrations").get() as { version: number | null })
+    .version ?? 0;
+  if (current > SCHEMA_VERSION) {
+    throw new Error(
+      `${dbPath} is at schema version ${current}, but this code only knows up to ${SCHEMA_VERSION}. ` +
+      `Update the code before opening this database.`
+    );
+  }
+
+  const pending = MIGRATIONS.filter((m) => m.version > current);
+  if (pending.length === 0) return { from: current, to: current, backupPath: null };
+
+  // A brand-new file has nothing worth backing up
+  const { tables } = db.prepare(`
+    SELECT COUNT(*) AS tables FROM sqlite_master
+    WHERE type = 'table' AND name NOT IN ('schema_migrations', 'sqlite_sequence')
+  `).get() as { tables: number };
+  let backupPath: string | null = null;
+  if (tables > 0) {
+    const stamp = new Date().toISOString().replace(/[-:]/g, "").slice(0, 15);
+    backupPath = `${dbPath}.v${current}-${stamp}.bak`;
+    if (fs.existsSync(backupPath)) fs.rmSync(backupPath);
+    // VACUUM INTO writes a consistent copy, including anything still in the WAL
+    db.exec(`VACUUM INTO '${backupPath.replace(/'/g, "''")}'`);
+  }
+
+  const record = db.prepare("INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)");
+  for (const m of pending) {
+    db.transaction(() => {
+      m.up(db);
+      record.run(m.version, m.name, toSqlDateTime(Date.now()));
+    })();
+  }
+
+  return { from: current, to: SCHEMA_VERSION, backupPath };
+}
@@ -0,0 +1,453 @@
+/**
+ * Offline stand-in for Polymarket: Gamma events, the CLOB REST endpoints the
+ * bot uses (prices, API keys, orders) and the market and user WebSockets, all
+ * driven by a scripted scenario. Any "<asset>-updown-<duration>-<ts>" slug is
+ * served, so the paper and live loops run unchanged against it.
+ *
+ *   npm run mock -- --scenario resolve [--port 8789]
+ *
+ * then start the bot with the POLY_* variables it prints. Live mode also needs
+ * a PRIVATE_KEY — any throwaway key works, orders are signed but never leave the machine.
+ * `npm run e2e` runs the paper loop against the "resolve" scenario and checks the trade it makes.
+ */
+import http from "node:http";
+import { createHash } from "node:crypto";
+import { WebSocketServer, WebSocket } from "ws";
+import { getMarketEndTime, getWindowSeconds } from "./market.js";
+import { bookHash } from "./orderbook.js";
+
+type Scenario = "resolve" | "early-close" | "drop-socket" | "reject-orders";
+
+const SCENARIOS: Record<Scenario, string> = {
+  "resolve": "Up climbs from $0.50 to $0.70 over the window and wins",
+  "early-close": "like resolve, but the market settles halfway: both bids jump to $0.99 and Gamma reports it closed",
+  "drop-socket": "like resolve, but every WebSocket is dropped every 45s",
+  "reject-orders": "like resolve, but every order is rejected",
+};
+
+const TICK_MS = 1000;            // price path and order matching step
+const DROP_SOCKET_MS = 45_000;   // drop-socket scenario: how often connections are cut
+const RESOLVE_DELAY_MS = 10_000; // how long after window end Gamma reports the winner
+const LEVEL_SIZE = [200, 500];   // shares at the best and second level on each side
+
+const portIdx = process.argv.indexOf("--port");
+const PORT = portIdx !== -1 ? parseInt(process.argv[portIdx + 1], 10) : 8789;
+const scenarioIdx = process.argv.indexOf("--scenario");
+const SCENARIO = (scenarioIdx !== -1 ? process.argv[scenarioIdx + 1] : "resolve") as Scenario;
+
+if (!(SCENARIO in SCENARIOS) || isNaN(PORT)) {
+  console.error(`Usage: npm run mock -- [--scenario <name>] [--port <port>]`);
+  for (const [name, description] of Object.entries(SCENARIOS)) {
+    console.error(`  ${name.padEnd(14)} ${description}`);
+  }
+  process.exit(1);
+}
+
+// --- Scripted markets ---
+
+interface MockToken {
+  slug: string;
+  outcome: "Up" | "Down";
+}
+
+// Token ids seen in Gamma responses, so price and order requests can find their market
+const tokens = new Map<string, MockToken>();
+
+/** Numeric token ids like the real ones (orders are signed over them), stable per slug. */
+function tokenIds(slug: string): { up: string; down: string } {
+  const id = (outcome: string) => BigInt("0x" + createHash("sha256").update(`${slug}:${outcome}`).digest("hex")).toString();
+  const up = id("Up");
+  const down = id("Down");
+  tokens.set(up, { slug, outcome: "Up" });
+  tokens.set(down, { slug, outcome: "Down" });
+  return { up, down };
+}
+
+/** Fraction of the window elapsed at `ms`, clamped to [0, 1]. */
+function windowProgress(slug: string, ms: number): number {
+  const end = getMarketEndTime(slug);
+  const length = getWindowSeconds(slug) * 1000;
+  return Math.min(1, Math.max(0, (ms - (end - length)) / length));
+}
+
+function closesEarly(slug: string, ms: number): boolean {
+  return SCENARIO === "early-close" && windowProgress(slug, ms) >= 0.5;
+}
+
+/** Best bid and ask for a token at `ms`. */
+function quote(token: MockToken, ms: number): { bid: number; ask: number } {
+  if (closesEarly(token.slug, ms)) return { bid: 0.99, ask: 1 };
+  const upMid = 0.5 + 0.2 * windowProgress(token.slug, ms);
+  const mid = token.outcome === "Up" ? upMid : 1 - upMid;
+  return { bid: cents(mid - 0.01), ask: cents(mid + 0.01) };
+}
+
+/** Two levels a cent apart on each side of the quote. */
+function bookLevels(token: MockToken, ms: number): { bids: Map<number, number>; asks: Map<number, number> } {
+  const { bid, ask } = quote(token, ms);
+  const bids = new Map<number, number>();
+  const asks = new Map<number, number>();
+  LEVEL_SIZE.forEach((size, i) => {
+    if (bid - i * 0.01 > 0) bids.set(cents(bid - i * 0.01), size);
+    if (ask + i * 0.01 <= 1) asks.set(cents(ask + i * 0.01), size);
+  });
+  return { bids, asks };
+}
+
+function isResolved(slug: string, ms: number): boolean {
+  return closesEarly(slug, ms) || ms >= getMarketEndTime(slug) + RESOLVE_DELAY_MS;
+}
+
+function gammaEvent(slug: string): unknown[] {
+  const ms = Date.now();
+  const ids = tokenIds(slug);
+  const resolved = isResolved(slug, ms);
+  const outcomePrices = resolved
+    ? ["1", "0"] // every scenario resolves Up
+    : [quote(tokens.get(ids.up)!, ms).bid, quote(tokens.get(ids.down)!, ms).bid].map(String);
+
+  return [{
+    slug,
+    // Oracle open and settlement prices, as on real Up/Down events; settlement is always higher
+    eventMetadata: resolved ? { priceToBeat: 100_000, finalPrice: 100_050 } : { priceToBeat: 100_000 },
+    markets: [{
+      conditionId: `0xmock-${slug}`,
+      clobTokenIds: JSON.stringify([ids.up, ids.down]),
+      outcomes: JSON.stringify(["Up", "Down"]),
+      outcomePrices: JSON.stringify(outcomePrices),
+      closed: resolved,
+      resolved,
+    }],
+  }];
+}
+
+// --- Orders ---
+
+interface MockOrder {
+  id: string;
+  tokenId: string;
+  side: "BUY" | "SELL";
+  price: number;
+  originalSize: number;
+  sizeMatched: number;
+  status: "LIVE" | "MATCHED" | "CANCELLED";
+  tradeIds: string[];
+}
+
+const orders = new Map<string, MockOrder>();
+const trades = new Map<string, Record<string, unknown>>();
+let nextOrderId = 1;
+let nextTradeId = 1;
+
+function placeOrder(payload: any): { status: number; body: unknown } {
+  if (SCENARIO === "reject-orders") {
+    return { status: 400, body: { error: "not enough balance / allowance" } };
+  }
+
+  const order = payload?.order;
+  const maker = Number(order?.makerAmount) / 1e6;
+  const taker = Number(order?.takerAmount) / 1e6;
+  if (!order?.tokenId || !(maker > 0) || !(taker > 0)) {
+    return { status: 400, body: { error: "invalid order payload" } };
+  }
+
+  // BUY pays makerAmount USDC for takerAmount shares; SELL is the reverse
+  const side = order.side === "SELL" ? "SELL" : "BUY";
+  const size = side === "BUY" ? taker : maker;
+  const mock: MockOrder = {
+    id: `0xmock-order-${nextOrderId++}`,
+    tokenId: order.tokenId,
+    side,
+    price: cents(side === "BUY" ? maker / taker : taker / maker),
+    originalSize: size,
+    sizeMatched: 0,
+    status: "LIVE",
+    tradeIds: [],
+  };
+  orders.set(mock.id, mock);
+  console.log(`[Mock] ${side} ${size} @ $${mock.price.toFixed(2)} placed as ${mock.id}`);
+  sendUserEvent(orderEvent(mock, "PLACEMENT"));
+  matchOrder(mock);
+
+  return { status: 200, body: { success: true, orderID: mock.id, status: "live", errorMsg: "" } };
+}
+
+/**
+ * Fill a crossing order at the quote it crosses, which may be better than its
+ * limit, at most half its size per tick so partial fills show up before the order completes.
+ */
+function matchOrder(order: MockOrder): void {
+  if (order.status !== "LIVE") return;
+  const token = tokens.get(order.tokenId);
+  if (!token) return;
+
+  const { bid, ask } = quote(token, Date.now());
+  const crosses = order.side === "BUY" ? order.price >= ask : order.price <= bid;
+  if (!crosses) return;
+
+  const remaining = order.originalSize - order.sizeMatched;
+  const size = Math.min(remaining, Math.ceil(order.originalSize / 2));
+  order.sizeMatched = Math.round((order.sizeMatched + size) * 1e6) / 1e6;
+  if (order.sizeMatched >= order.originalSize) order.status = "MATCHED";
+  console.log(`[Mock] ${order.id} matched ${size} (${order.sizeMatched}/${order.originalSize})`);
+
+  const trade = {
+    id: `mock-trade-${nextTradeId++}`,
+    status: "MATCHED",
+    taker_order_id: order.id,
+    maker_orders: [],
+    asset_id: order.tokenId,
+    side: order.side,
+    price: String(order.side === "BUY" ? ask : bid),
+    size: String(size),
+    match_time: String(Math.floor(Date.now() / 1000)),
+  };
+  trades.set(trade.id, trade);
+  order.tradeIds.push(trade.id);
+  sendUserEvent({ event_type: "trade", ...trade, timestamp: String(Date.now()) });
+  sendUserEvent(orderEvent(order, "UPDATE"));
+}
+
+function cancelOrder(orderId: string): { canceled: string[]; not_canceled: Record<string, string> } {
+  const order = orders.get(orderId);
+  if (!order || order.status !== "LIVE") {
+    return { canceled: [], not_canceled: { [orderId]: "order not open" } };
+  }
+  order.status = "CANCELLED";
+  console.log(`[Mock] ${order.id} cancelled`);
+  sendUserEvent(orderEvent(order, "CANCELLATION"));
+  return { canceled: [orderId], not_canceled: {} };
+}
+
+function orderJson(order: MockOrder) {
+  return {
+    id: order.id,
+    status: order.status,
+    asset_id: order.tokenId,
+    side: order.side,
+    price: String(order.price),
+    original_size: String(order.originalSize),
+    size_matched: String(order.sizeMatched),
+    associate_trades: order.tradeIds,
+    order_type: "GTC",
+  };
+}
+
+function orderEvent(order: MockOrder, type: "PLACEMENT" | "UPDATE" | "CANCELLATION") {
+  return { event_type: "order", type, timestamp: String(Date.now()), ...orderJson(order) };
+}
+
+// --- HTTP: Gamma and CLOB REST ---
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url ?? "/", `http://localhost:${PORT}`);
+  const body = await readBody(req);
+
+  const send = (status: number, data: unknown) => {
+    res.writeHead(status, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(data));
+  };
+
+  const route = `${req.method} ${url.pathname}`;
+  switch (route) {
+    case "GET /events":
+      return send(200, gammaEvent(url.searchParams.get("slug") ?? ""));
+    case "GET /time":
+      return send(200, Math.floor(Date.now() / 1000));
+    case "GET /price": {
+      const token = tokens.get(url.searchParams.get("token_id") ?? "");
+      if (!token) return send(404, { error: "unknown token" });
+      const { bid, ask } = quote(token, Date.now());
+      return send(200, { price: String(url.searchParams.get("side") === "SELL" ? ask : bid) });
+    }
+    case "GET /tick-size":
+      return send(200, { minimum_tick_size: 0.01 });
+    case "GET /neg-risk":
+      return send(200, { neg_risk: false });
+    case "GET /fee-rate":
+      return send(200, { base_fee: 0 });
+    case "POST /auth/api-key":
+    case "GET /auth/derive-api-key":
+      return send(200, {
+        apiKey: "mock-api-key",
+        secret: Buffer.from("mock-secret").toString("base64"),
+        passphrase: "mock-passphrase",
+      });
+    case "POST /order": {
+      const result = placeOrder(parseJson(body));
+      return send(result.status, result.body);
+    }
+    case "DELETE /order":
+      return send(200, cancelOrder(parseJson(body)?.orderID ?? ""));
+    case "GET /data/trades": {
+      const trade = trades.get(url.searchParams.get("id") ?? "");
+      return send(200, { data: trade ? [trade] : [], next_cursor: "LTE=" });
+    }
+  }
+
+  if (req.method === "GET" && url.pathname.startsWith("/data/order/")) {
+    const order = orders.get(url.pathname.slice("/data/order/".length));
+    return order ? send(200, orderJson(order)) : send(404, { error: "order not found" });
+  }
+
+  send(404, { error: `no mock for ${route}` });
+});
+
+function readBody(req: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve) => {
+    let data = "";
+    req.on("data", (chunk) => { data += chunk; });
+    req.on("end", () => resolve(data));
+  });
+}
+
+function parseJson(text: string): any {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return null;
+  }
+}
+
+// --- WebSockets: market and user channels ---
+
+const marketWss = new WebSocketServer({ noServer: true });
+const userWss = new WebSocketServer({ noServer: true });
+
+// Assets each market connection subscribed to, and the book last sent for each
+const subscriptions = new Map<WebSocket, Map<string, { bids: Map<number, number>; asks: Map<number, number> }>>();
+const userClients = new Set<WebSocket>();
+
+server.on("upgrade", (req, socket, head) => {
+  const pathname = new URL(req.url ?? "/", `http://localhost:${PORT}`).pathname;
+  const wss = pathname === "/ws/market" ? marketWss : pathname === "/ws/user" ? userWss : null;
+  if (!wss) {
+    socket.destroy();
+    return;
+  }
+  wss.handleUpgrade(req, socket, head, (ws) => wss.emit("connection", ws));
+});
+
+marketWss.on("connection", (ws: WebSocket) => {
+  const books = new Map<string, { bids: Map<number, number>; asks: Map<number, number> }>();
+  subscriptions.set(ws, books);
+
+  ws.on("message", (raw) => {
+    const sub = parseJson(raw.toString());
+    if (!Array.isArray(sub?.assets_ids)) return;
+    if (sub.operation === "unsubscribe") {
+      for (const assetId of sub.assets_ids as string[]) books.delete(assetId);
+      return;
+    }
+
+    // Initial subscription or operation "subscribe": snapshot each new token
+    const ms = Date.now();
+    for (const assetId of sub.assets_ids as string[]) {
+      const token = tokens.get(assetId);
+      if (!token) continue;
+      const levels = bookLevels(token, ms);
+      books.set(assetId, levels);
+      const snapshot = {
+        event_type: "book",
+        asset_id: assetId,
+        market: `0xmock-${token.slug}`,
+        bids: levelsJson(levels.bids),
+        asks: levelsJson(levels.asks),
+        timestamp: String(ms),
+        hash: "",
+      };
+      ws.send(JSON.stringify({ ...snapshot, hash: bookHash(snapshot) }));
+    }
+  });
+  ws.on("close", () => subscriptions.delete(ws));
+});
+
+userWss.on("connection", (ws: WebSocket) => {
+  ws.on("message", (raw) => {
+    if (parseJson(raw.toString())?.type === "user") userClients.add(ws);
+  });
+  ws.on("close", () => userClients.delete(ws));
+});
+
+function sendUserEvent(event: unknown): void {
+  for (const ws of userClients) {
+    if (ws.readyState === WebSocket.OPEN) ws.send(JSON.stringify(event));
+  }
+}
+
+/** Send each subscriber the level changes since its last update, then match resting orders. */
+function tick(): void {
+  const ms = Date.now();
+
+  for (const [ws, books] of subscriptions) {
+    if (ws.readyState !== WebSocket.OPEN) continue;
+    const changes: unknown[] = [];
+
+    for (const [assetId, book] of books) {
+      const next = bookLevels(tokens.get(assetId)!, ms);
+      for (const [side, levels, target] of [
+        ["BUY", book.bids, next.bids],
+        ["SELL", book.asks, next.asks],
+      ] as const) {
+        for (const price of new Set([...levels.keys(), ...target.keys()])) {
+          const size = target.get(price) ?? 0;
+          if ((levels.get(price) ?? 0) === size) continue;
+          if (size > 0) levels.set(price, size);
+          else levels.delete(price);
+          // Like the real feed, best bid/ask describe the book after this one change
+          changes.push({
+            asset_id: assetId,
+            price: String(price),
+            size: String(size),
+            side,
+            best_bid: String(book.bids.size > 0 ? Math.max(...book.bids.keys()) : 0),
+            best_ask: String(book.asks.size > 0 ? Math.min(...book.asks.keys()) : 1),
+            hash: `mock-${ms}`,
+          });
+        }
+      }
+    }
+
+    if (changes.length > 0) {
+      ws.send(JSON.stringify({ event_type: "price_change", timestamp: String(ms), price_changes: changes }));
+    }
+  }
+
+  for (const order of orders.values()) matchOrder(order);
+}
+
+function levelsJson(levels: Map<number, number>) {
+  return [...levels].map(([price, size]) => ({ price: String(price), size: String(size) }));
+}
+
+function cents(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// --- Start ---
+
+const tickTimer = setInterval(tick, TICK_MS);
+const dropTimer = SCENARIO === "drop-socket"
+  ? setInterval(() => {
+      const count = subscriptions.size + userClients.size;
+      if (count === 0) return;
+      console.log(`[Mock] Dropping ${count} WebSocket connection(s)`);
+      for (const ws of [...subscriptions.keys(), ...userClients]) ws.terminate();
+    }, DROP_SOCKET_MS)
+  : null;
+
+server.listen(PORT, () => {
+  console.log(`[Mock] Scenario "${SCENARIO}": ${SCENARIOS[SCENARIO]}`);
+  console.log(`[Mock] Listening on port ${PORT}. Point the bot at it with:\n`);
+  console.log(`  POLY_GAMMA_URL=http://localhost:${PORT}`);
+  console.log(`  POLY_CLOB_URL=http://localhost:${PORT}`);
+  console.log(`  POLY_WS_URL=ws://localhost:${PORT}/ws\n`);
+});
+
+process.on("SIGINT", () => {
+  clearInterval(tickTimer);
+  if (dropTimer) clearInterval(dropTimer);
+  for (const ws of [...subscriptions.keys(), ...userClients]) ws.terminate();
+  server.close();
+  process.exit(0);
+});
@@ -0,0 +1,146 @@
+import { createHash } from "node:crypto";
+
+export interface BookLevel {
+  price: number;
+  size: number; // shares
+}
+
+/** Read-only snapshot of one token's book, best level first on each side. */
+export interface BookView {
+  tokenId: string;
+  bids: BookLevel[]; // highest first
+  asks: BookLevel[]; // lowest first
+  bestBid: number | null;
+  bestAsk: number | null;
+  mid: number | null;
+  spread: number | null;
+  timestamp: number | null; // exchange time of the last applied message (Unix ms)
+  hash: string | null;      // feed-supplied hash of the last applied message
+  synced: boolean;
+}
+
+export interface OrderBook {
+  tokenId: string;
+  bids: Map<number, number>; // price → size
+  asks: Map<number, number>;
+  timestamp: number | null;
+  hash: string | null;
+  // False until the first snapshot, and again after a failed consistency check
+  synced: boolean;
+}
+
+export function createOrderBook(tokenId: string): OrderBook {
+  return { tokenId, bids: new Map(), asks: new Map(), timestamp: null, hash: null, synced: false };
+}
+
+/**
+ * Replace the whole book from a `book` snapshot message. Returns false when the message
+ * doesn't match its own hash by bookHash. The book is used either way: the feed's hashing
+ * isn't confirmed to match bookHash, so a mismatch is only counted, never trusted to gate trading.
+ */
+export function applyBookSnapshot(book: OrderBook, msg: any): boolean {
+  book.bids = levelsToMap(msg.bids);
+  book.asks = levelsToMap(msg.asks);
+  book.timestamp = parseTimestamp(msg.timestamp) ?? book.timestamp;
+  book.hash = msg.hash ?? null;
+  book.synced = true;
+  return typeof msg.hash !== "string" || msg.hash === bookHash(msg);
+}
+
+/**
+ * SHA-1 of a snapshot's JSON with `hash` blanked, as the clob client hashes book summaries.
+ * The mock feed hashes this way; whether the real feed does is unverified.
+ */
+export function bookHash(msg: Record<string, unknown>): string {
+  return createHash("sha1").update(JSON.stringify({ ...msg, hash: "" })).digest("hex");
+}
+
+/**
+ * Apply one `price_changes` entry, where `size` is the new total at that level.
+ * Returns false when the change is older than the book or the feed's reported
+ * best bid/ask disagrees with ours afterwards — the book then needs a fresh snapshot.
+ */
+export function applyPriceChange(book: OrderBook, change: any, timestamp: unknown): boolean {
+  const ts = parseTimestamp(timestamp);
+  if (ts !== null && book.timestamp !== null && ts < book.timestamp) {
+    return false; // out of order
+  }
+
+  const price = parseFloat(change.price);
+  const size = parseFloat(change.size);
+  if (isNaN(price) || isNaN(size)) return true;
+
+  const side = change.side === "BUY" ? book.bids : change.side === "SELL" ? book.asks : null;
+  if (!side) return true;
+  if (size > 0) {
+    side.set(price, size);
+  } else {
+    side.delete(price);
+  }
+
+  if (ts !== null) book.timestamp = ts;
+  book.hash = change.hash ?? book.hash;
+
+  if (!book.synced) return true;
+
+  const reportedBid = parseFloat(change.best_bid);
+  const reportedAsk = parseFloat(change.best_ask);
+  const ourBid = bestPrice(book.bids, "bid");
+  const ourAsk = bestPrice(book.asks, "ask");
+  if ((!isNaN(reportedBid) && !samePrice(reportedBid, ourBid)) ||
+      (!isNaN(reportedAsk) && !samePrice(reportedAsk, ourAsk))) {
+    book.synced = false;
+    return false;
+  }
+
+  return true;
+}
+
+export function getBookView(book: OrderBook): BookView {
+  const bids = [...book.bids].map(([price, size]) => ({ price, size })).sort((a, b) => b.price - a.price);
+  const asks = [...book.asks].map(([price, size]) => ({ price, size })).sort((a, b) => a.price - b.price);
+  const bestBid = bids[0]?.price ?? null;
+  const bestAsk = asks[0]?.price ?? null;
+  const both = bestBid !== null && bestAsk !== null;
+
+  return {
+    tokenId: book.tokenId,
+    bids,
+    asks,
+    bestBid,
+    bestAsk,
+    mid: both ? (bestBid + bestAsk) / 2 : null,
+    spread: both ? bestAsk - bestBid : null,
+    timestamp: book.timestamp,
+    hash: book.hash,
+    synced: book.synced,
+  };
+}
+
+function levelsToMap(levels: unknown): Map<number, number> {
+  const map = new Map<number, number>();
+  if (!Array.isArray(levels)) return map;
+  for (const level of levels) {
+    const price = parseFloat(level?.price);
+    const size = parseFloat(level?.size);
+    if (!isNaN(price) && !isNaN(size) && size > 0) map.set(price, size);
+  }
+  return map;
+}
+
+function bestPrice(levels: Map<number, number>, kind: "bid" | "ask"): number | null {
+  if (levels.size === 0) return null;
+  const prices = [...levels.keys()];
+  return kind === "bid" ? Math.max(...prices) : Math.min(...prices);
+}
+
+function samePrice(reported: number, ours: number | null): boolean {
+  // The feed reports 0 (bid) or 1 (ask) for an empty side
+  if (ours === null) return reported === 0 || reported === 1;
+  return Math.abs(reported - ours) < 1e-9;
+}
+
+function parseTimestamp(value: unknown): number | null {
+  const n = typeof value === "number" ? value : parseInt(String(value), 10);
+  return isNaN(n) ? null : n;
+}
@@ -0,0 +1,63 @@
+import { TICK_SIZE, MIN_SHARES } from "./clob.js";
+import type { BookView } from "./orderbook.js";
+
+export interface PaperFill {
+  status: "filled" | "partial" | "none" | "too_small";
+  requestedShares: number;
+  filledShares: number;
+  avgPrice: number | null; // null when nothing filled
+  limitPrice: number;      // after rounding down to the tick
+}
+
+/**
+ * Simulate a marketable limit buy for `notional` dollars against the asks,
+ * sized the same way placeOrder sizes live orders. Only liquidity at or
+ * below the limit fills; the rest is left unfilled.
+ */
+export function simulateBuyFill(book: BookView, limitPrice: number, notional: number): PaperFill {
+  const tick = parseFloat(TICK_SIZE);
+  const limit = Math.round(Math.floor(limitPrice / tick + 1e-9) * tick * 1e6) / 1e6;
+  const requestedShares = limit > 0 ? Math.floor((notional / limit) * 100) / 100 : 0;
+
+  if (requestedShares < MIN_SHARES) {
+    return { status: "too_small", requestedShares, filledShares: 0, avgPrice: null, limitPrice: limit };
+  }
+
+  let remaining = requestedShares;
+  let cost = 0;
+  for (const level of book.asks) {
+    if (level.price > limit + 1e-9 || remaining <= 0) break;
+    const take = Math.min(level.size, remaining);
+    cost += take * level.price;
+    remaining -= take;
+  }
+
+  const filledShares = Math.round((requestedShares - remaining) * 100) / 100;
+  if (filledShares <= 0) {
+    return { status: "none", requestedShares, filledShares: 0, avgPrice: null, limitPrice: limit };
+  }
+
+  return {
+    status: remaining > 1e-9 ? "partial" : "filled",
+    requestedShares,
+    filledShares,
+    avgPrice: cost / (requestedShares - remaining),
+    limitPrice: limit,
+  };
+}
+
+/**
+ * Simulate selling `shares` into the bids. Returns the average price, or
+ * null if the book can't absorb the whole position right now.
+ */
+export function simulateSellFill(book: BookView, shares: number): number | null {
+  let remaining = shares;
+  let proceeds = 0;
+  for (const level of book.bids) {
+    if (remaining <= 1e-9) break;
+    const take = Math.min(level.size, remaining);
+    proceeds += take * level.price;
+    remaining -= take;
+  }
+  return remaining > 1e-9 ? null : proceeds / shares;
+}
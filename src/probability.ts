@@ -0,0 +1,135 @@
+// Small numeric helpers for win-rate statistics. No dependencies; accuracy ~1e-9, ample for trade counts.
+
+const LANCZOS = [
+  676.5203681218851, -1259.1392167224028, 771.32342877765313, -176.61502916214059,
+  12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6, 1.5056327351493116e-7,
+];
+
+/** ln Γ(x) for x > 0 (Lanczos approximation). */
+export function logGamma(x: number): number {
+  if (x < 0.5) {
+    // Reflection formula keeps the approximation accurate near 0
+    return Math.log(Math.PI / Math.sin(Math.PI * x)) - logGamma(1 - x);
+  }
+  x -= 1;
+  let sum = 0.99999999999980993;
+  for (let i = 0; i < LANCZOS.length; i++) sum += LANCZOS[i] / (x + i + 1);
+  const t = x + LANCZOS.length - 0.5;
+  return 0.5 * Math.log(2 * Math.PI) + (x + 0.5) * Math.log(t) - t + Math.log(sum);
+}
+
+/** Continued fraction for the incomplete beta function (modified Lentz). */
+function betaContinuedFraction(x: number, a: number, b: number): number {
+  const TINY = 1e-300;
+  let c = 1;
+  let d = 1 - ((a + b) * x) / (a + 1);
+  if (Math.abs(d) < TINY) d = TINY;
+  d = 1 / d;
+  let h = d;
+
+  for (let m = 1; m <= 300; m++) {
+    const m2 = 2 * m;
+    let aa = (m * (b - m) * x) / ((a + m2 - 1) * (a + m2));
+    d = 1 + aa * d;
+    if (Math.abs(d) < TINY) d = TINY;
+    c = 1 + aa / c;
+    if (Math.abs(c) < TINY) c = TINY;
+    d = 1 / d;
+    h *= d * c;
+
+    aa = (-(a + m) * (a + b + m) * x) / ((a + m2) * (a + m2 + 1));
+    d = 1 + aa * d;
+    if (Math.abs(d) < TINY) d = TINY;
+    c = 1 + aa / c;
+    if (Math.abs(c) < TINY) c = TINY;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < 1e-12) break;
+  }
+  return h;
+}
+
+/** P(X <= x) for X ~ Beta(a, b), i.e. the regularized incomplete beta function I_x(a, b). */
+export function betaCdf(x: number, a: number, b: number): number {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+  const front = Math.exp(
+    logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x)
+  );
+  // The continued fraction converges fastest on the side of the mean
+  return x < (a + 1) / (a + b + 2)
+    ? (front * betaContinuedFraction(x, a, b)) / a
+    : 1 - (front * betaContinuedFraction(1 - x, b, a)) / b;
+}
+
+/** The p-quantile of Beta(a, b), by bisection on the CDF. */
+export function betaQuantile(p: number, a: number, b: number): number {
+  let lo = 0;
+  let hi = 1;
+  for (let i = 0; i < 60; i++) {
+    const mid = (lo + hi) / 2;
+    if (betaCdf(mid, a, b) < p) lo = mid;
+    else hi = mid;
+  }
+  return (lo + hi) / 2;
+}
+
+/** P(X >= k) for X ~ Binomial(n, p): the one-sided binomial test's p-value for k successes. */
+export function binomialUpperTail(k: number, n: number, p: number): number {
+  if (k <= 0) return 1;
+  if (k > n) return 0;
+  // P(X >= k) = I_p(k, n - k + 1)
+  return betaCdf(p, k, n - k + 1);
+}
+
+// Acklam's rational approximation to the inverse normal CDF
+const NORMAL_A = [
+  -3.969683028665376e1, 2.209460984245205e2, -2.759285104469687e2, 1.38357751867269e2,
+  -3.066479806614716e1, 2.506628277459239,
+];
+const NORMAL_B = [-5.447609879822406e1, 1.615858368580409e2, -1.556989798598866e2, 6.680131188771972e1, -1.328068155288572e1];
+const NORMAL_C = [
+  -7.784894002430293e-3, -3.223964580411365e-1, -2.400758277161838, -2.549732539343734,
+  4.374664141464968, 2.938163982698783,
+];
+const NORMAL_D = [7.784695709041462e-3, 3.224671290700398e-1, 2.445134137142996, 3.754408661907416];
+
+/** The p-quantile of the standard normal distribution, for 0 < p < 1. */
+export function normalQuantile(p: number): number {
+  const tail = (q: number) =>
+    (((((NORMAL_C[0] * q + NORMAL_C[1]) * q + NORMAL_C[2]) * q + NORMAL_C[3]) * q + NORMAL_C[4]) * q + NORMAL_C[5]) /
+    ((((NORMAL_D[0] * q + NORMAL_D[1]) * q + NORMAL_D[2]) * q + NORMAL_D[3]) * q + 1);
+
+  if (p < 0.02425) return tail(Math.sqrt(-2 * Math.log(p)));
+  if (p > 1 - 0.02425) return -tail(Math.sqrt(-2 * Math.log(1 - p)));
+  const q = p - 0.5;
+  const r = q * q;
+  return (
+    ((((((NORMAL_A[0] * r + NORMAL_A[1]) * r + NORMAL_A[2]) * r + NORMAL_A[3]) * r + NORMAL_A[4]) * r + NORMAL_A[5]) * q) /
+    (((((NORMAL_B[0] * r + NORMAL_B[1]) * r + NORMAL_B[2]) * r + NORMAL_B[3]) * r + NORMAL_B[4]) * r + 1)
+  );
+}
+
+/** Wilson score interval for k successes in n trials at two-sided `confidence` (e.g. 0.95). */
+export function wilsonInterval(k: number, n: number, confidence: number): { lower: number; upper: number } {
+  if (n <= 0) return { lower: 0, upper: 1 };
+  const z = normalQuantile(1 - (1 - confidence) / 2);
+  const p = k / n;
+  const denom = 1 + (z * z) / n;
+  const center = (p + (z * z) / (2 * n)) / denom;
+  const half = (z * Math.sqrt((p * (1 - p)) / n + (z * z) / (4 * n * n))) / denom;
+  return { lower: Math.max(0, center - half), upper: Math.min(1, center + half) };
+}
+
+/**
+ * Trades a one-sided test at level `alpha` needs to detect a true win rate of `p1`
+ * over `p0` with probability `power` (normal approximation). Infinity when p1 <= p0.
+ */
+export function sampleSizeForPower(p0: number, p1: number, alpha: number, power: number): number {
+  if (p1 <= p0) return Infinity;
+  const zAlpha = normalQuantile(1 - alpha);
+  const zBeta = normalQuantile(power);
+  const n = (zAlpha * Math.sqrt(p0 * (1 - p0)) + zBeta * Math.sqrt(p1 * (1 - p1))) / (p1 - p0);
+  return Math.ceil(n * n);
+}
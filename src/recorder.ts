@@ -0,0 +1,75 @@
+import { DB_PATH, insertMarketEvents, insertRecordedMarket, type MarketEvent } from "./db.js";
+import { getMarketEndTime, type MarketInfo } from "./market.js";
+
+const FLUSH_INTERVAL = 1000; // 1s between batched inserts
+const MAX_BUFFER = 500;      // flush early when this many events are queued
+
+let enabled = false;
+let buffer: Omit<MarketEvent, "id">[] = [];
+let flushTimer: ReturnType<typeof setInterval> | null = null;
+let totalRecorded = 0;
+
+export function isRecording(): boolean {
+  return enabled;
+}
+
+/** Start buffering raw market events and flushing them to SQLite. */
+export function startRecorder(): void {
+  if (enabled) return;
+  enabled = true;
+  flushTimer = setInterval(flushRecorder, FLUSH_INTERVAL);
+  console.log(`[Recorder] Recording raw market events to ${DB_PATH}`);
+}
+
+/** Flush remaining events and stop the timer (for shutdown). */
+export function stopRecorder(): void {
+  if (!enabled) return;
+  flushRecorder();
+  enabled = false;
+  if (flushTimer) {
+    clearInterval(flushTimer);
+    flushTimer = null;
+  }
+  console.log(`[Recorder] Stopped after ${totalRecorded} events`);
+}
+
+/** Remember a market's tokens so its events can be replayed later. */
+export function recordMarket(market: MarketInfo): void {
+  if (!enabled) return;
+  insertRecordedMarket({
+    slug: market.slug,
+    condition_id: market.conditionId,
+    up_token_id: market.upTokenId,
+    down_token_id: market.downTokenId,
+    end_time: getMarketEndTime(market.slug),
+  });
+}
+
+export function recordEvent(
+  marketSlug: string,
+  tokenId: string,
+  eventType: string,
+  payload: unknown
+): void {
+  if (!enabled) return;
+  buffer.push({
+    received_at: Date.now(),
+    market_slug: marketSlug,
+    token_id: tokenId,
+    event_type: eventType,
+    payload: JSON.stringify(payload),
+  });
+  if (buffer.length >= MAX_BUFFER) flushRecorder();
+}
+
+export function flushRecorder(): void {
+  if (buffer.length === 0) return;
+  const batch = buffer;
+  buffer = [];
+  try {
+    insertMarketEvents(batch);
+    totalRecorded += batch.length;
+  } catch (err) {
+    console.error(`[Recorder] Failed to write ${batch.length} events:`, err);
+  }
+}
@@ -0,0 +1,183 @@
+import Database from "better-sqlite3";
+import path from "node:path";
+import { setVirtualTime, useRealTime } from "./clock.js";
+import { DB_PATH, clearReplayTrades, countNonReplayTrades, getTradesBySlug, type MarketEvent, type RecordedMarket } from "./db.js";
+import {
+  checkResolution,
+  getSeriesSlugPrefix,
+  getWindowSeconds,
+  type MarketInfo,
+  type MarketSeries,
+} from "./market.js";
+import {
+  handlePriceUpdate,
+  startMarketWindow,
+  clearMarketState,
+  resolveMarketTrades,
+  clearBets,
+  checkPositionExits,
+} from "./strategy.js";
+import { dispatchMarketMessage } from "./ws.js";
+import type { OrderBook } from "./orderbook.js";
+
+export interface ReplayOptions {
+  sourcePath: string; // database written by --record
+  fromMs: number;
+  toMs: number;
+  series: MarketSeries[];
+}
+
+export interface ReplaySummary {
+  markets: number;
+  events: number;
+  unresolved: number; // markets with trades whose winner Gamma didn't report
+}
+
+interface ReplayMarket {
+  info: MarketInfo;
+  startTime: number; // Unix ms
+  endTime: number;   // Unix ms
+  state: "waiting" | "active" | "ended";
+}
+
+/**
+ * Feed recorded market events through the paper strategy path in receive
+ * order, with the clock pinned to each event's receive time.
+ */
+export async function runReplay(opts: ReplayOptions): Promise<ReplaySummary | null> {
+  const sourcePath = path.resolve(opts.sourcePath);
+  if (sourcePath === DB_PATH) {
+    console.error("[Replay] Source and output database are the same file. Pass --db to write elsewhere.");
+    return null;
+  }
+  // Replay clears its previous results, so it only ever writes to a database of its own
+  const realTrades = countNonReplayTrades();
+  if (realTrades > 0) {
+    console.error(
+      `[Replay] ${DB_PATH} holds ${realTrades} trades that didn't come from a replay. ` +
+      `Pass --db with a separate file for replay results.`
+    );
+    return null;
+  }
+
+  let source: Database.Database;
+  try {
+    source = new Database(sourcePath, { readonly: true, fileMustExist: true });
+  } catch (err) {
+    console.error(`[Replay] Could not open ${sourcePath}:`, err);
+    return null;
+  }
+
+  try {
+    const prefixes = opts.series.map(getSeriesSlugPrefix);
+    const recorded = source
+      .prepare("SELECT * FROM recorded_markets WHERE end_time > ? ORDER BY end_time")
+      .all(opts.fromMs) as RecordedMarket[];
+
+    const markets = new Map<string, ReplayMarket>();
+    for (const m of recorded) {
+      if (!prefixes.some((p) => m.slug.startsWith(p))) continue;
+      const startTime = m.end_time - getWindowSeconds(m.slug) * 1000;
+      if (startTime >= opts.toMs) continue;
+      markets.set(m.slug, {
+        info: {
+          slug: m.slug,
+          conditionId: m.condition_id,
+          upTokenId: m.up_token_id,
+          downTokenId: m.down_token_id,
+        },
+        startTime,
+        endTime: m.end_time,
+        state: "waiting",
+      });
+    }
+
+    if (markets.size === 0) {
+      console.log("[Replay] No recorded markets in range");
+      return { markets: 0, events: 0, unresolved: 0 };
+    }
+
+    const cleared = clearReplayTrades();
+    clearBets();
+    if (cleared > 0) console.log(`[Replay] Cleared ${cleared} trades from previous replay`);
+    console.log(
+      `[Replay] ${markets.size} markets, ${new Date(opts.fromMs).toISOString()} → ${new Date(opts.toMs).toISOString()}`
+    );
+
+    const byEndTime = [...markets.values()].sort((a, b) => a.endTime - b.endTime);
+
+    const startMarket = (m: ReplayMarket, at: number) => {
+      setVirtualTime(at);
+      m.state = "active";
+      startMarketWindow(m.info);
+    };
+
+    // End every active market whose window closed at or before `t`
+    const endMarketsUpTo = (t: number) => {
+      for (const m of byEndTime) {
+        if (m.endTime > t) break;
+        if (m.state !== "active") continue;
+        setVirtualTime(m.endTime);
+        checkPositionExits(m.info);
+        clearMarketState(m.info);
+        m.state = "ended";
+      }
+    };
+
+    const events = source
+      .prepare(
+        "SELECT * FROM market_events WHERE received_at >= ? AND received_at < ? ORDER BY received_at, id"
+      )
+      .iterate(opts.fromMs, opts.toMs) as IterableIterator<MarketEvent>;
+
+    const books = new Map<string, OrderBook>();
+    let eventCount = 0;
+    for (const event of events) {
+      endMarketsUpTo(event.received_at);
+
+      const market = markets.get(event.market_slug);
+      if (!market || market.state === "ended") continue;
+      if (market.state === "waiting") startMarket(market, Math.max(market.startTime, opts.fromMs));
+
+      let msg: unknown;
+      try {
+        msg = JSON.parse(event.payload);
+      } catch {
+        continue;
+      }
+
+      setVirtualTime(event.received_at);
+      checkPositionExits(market.info);
+      // No resync is possible from a recording: a desynced book stays flagged until the next snapshot
+      dispatchMarketMessage(
+        msg,
+        (tokenId, price, book, receivedAt) => handlePriceUpdate(market.info, tokenId, price, book, receivedAt),
+        books
+      );
+      eventCount++;
+    }
+
+    endMarketsUpTo(Infinity);
+
+    // Resolve against the real outcome, timestamped at each window's end
+    let unresolved = 0;
+    for (const m of byEndTime) {
+      const open = getTradesBySlug(m.info.slug).filter((t) => t.outcome === null);
+      if (open.length === 0) continue;
+
+      setVirtualTime(m.endTime);
+      const winner = await checkResolution(m.info.slug).catch(() => null);
+      if (!winner) {
+        console.log(`[Replay] No resolution for ${m.info.slug}, leaving ${open.length} trades pending`);
+        unresolved++;
+        continue;
+      }
+      resolveMarketTrades(open, winner);
+    }
+
+    return { markets: markets.size, events: eventCount, unresolved };
+  } finally {
+    useRealTime();
+    source.close();
+  }
+}
@@ -0,0 +1,115 @@
+import fs from "node:fs";
+import path from "node:path";
+import {
+  insertRiskHalt,
+  getActiveRiskHalts,
+  clearRiskHalts,
+  getLiveRiskSnapshot,
+  type RiskHalt,
+  type LiveRiskSnapshot,
+} from "./db.js";
+import { now, toSqlDateTime } from "./clock.js";
+
+export interface RiskLimits {
+  dailyLoss: number;            // halt for the rest of the UTC day once realized losses reach this
+  maxConsecutiveLosses: number; // halt until --reset-risk after this many losses in a row
+  maxOpenExposure: number;      // skip orders that would take unresolved cost above this
+  maxTradesPerHour: number;     // skip orders once this many live entry orders were placed in the last hour, filled or not
+  killSwitchPath: string;       // while this file exists, no new orders are placed
+}
+
+export const DEFAULT_RISK_LIMITS: RiskLimits = {
+  dailyLoss: 50,
+  maxConsecutiveLosses: 5,
+  maxOpenExposure: 20,
+  maxTradesPerHour: 12,
+  killSwitchPath: path.join(process.cwd(), "KILL_SWITCH"),
+};
+
+// Null until live mode enables the risk manager
+let limits: RiskLimits | null = null;
+
+export function setRiskLimits(riskLimits: RiskLimits): void {
+  limits = riskLimits;
+}
+
+export function getRiskLimits(): RiskLimits | null {
+  return limits;
+}
+
+/** Record a halt unless one of the same kind is already active. */
+function halt(kind: string, reason: string, expiresAt: string | null): RiskHalt {
+  const existing = getActiveRiskHalts().find((h) => h.kind === kind);
+  if (existing) return existing;
+  insertRiskHalt(kind, reason, expiresAt);
+  console.log(`\n[Risk] HALT (${kind}): ${reason}`);
+  return getActiveRiskHalts().find((h) => h.kind === kind)!;
+}
+
+function nextUtcMidnight(): string {
+  return toSqlDateTime((Math.floor(now() / 86_400_000) + 1) * 86_400_000);
+}
+
+/** Check the kill switch and the loss limits, recording a halt if one is breached. */
+export function checkHalts(): RiskHalt | null {
+  if (!limits) return null;
+
+  if (fs.existsSync(limits.killSwitchPath)) {
+    return halt("kill_switch", `kill-switch file ${limits.killSwitchPath} present`, null);
+  }
+  clearRiskHalts("kill_switch");
+
+  const snapshot = getLiveRiskSnapshot();
+  if (snapshot.dailyPnL <= -limits.dailyLoss) {
+    halt(
+      "daily_loss",
+      `daily P&L -$${Math.abs(snapshot.dailyPnL).toFixed(2)} reached the $${limits.dailyLoss} limit`,
+      nextUtcMidnight()
+    );
+  }
+  if (snapshot.consecutiveLosses >= limits.maxConsecutiveLosses) {
+    halt(
+      "consecutive_losses",
+      `${snapshot.consecutiveLosses} consecutive losses (limit ${limits.maxConsecutiveLosses})`,
+      null
+    );
+  }
+
+  return getActiveRiskHalts()[0] ?? null;
+}
+
+/**
+ * Gate a new live order costing `orderCost` dollars. Returns the reason it
+ * must not be placed, or null if it's allowed.
+ */
+export function checkNewOrder(orderCost: number): string | null {
+  if (!limits) return null;
+
+  const active = checkHalts();
+  if (active) return `halted (${active.kind}): ${active.reason}`;
+
+  const snapshot = getLiveRiskSnapshot();
+  if (snapshot.openExposure + orderCost > limits.maxOpenExposure) {
+    return `open exposure $${snapshot.openExposure.toFixed(2)} + $${orderCost.toFixed(2)} would exceed $${limits.maxOpenExposure}`;
+  }
+  if (snapshot.ordersLastHour >= limits.maxTradesPerHour) {
+    return `${snapshot.ordersLastHour} orders placed in the last hour (limit ${limits.maxTradesPerHour})`;
+  }
+  return null;
+}
+
+/** Feed a resolved or exited live trade into the limits. */
+export function onLiveTradeClosed(): void {
+  checkHalts();
+}
+
+export function getRiskSnapshot(): LiveRiskSnapshot {
+  return getLiveRiskSnapshot();
+}
+
+/** Clear every halt and restart the consecutive-loss count. */
+export function resetRisk(): number {
+  const cleared = clearRiskHalts();
+  insertRiskHalt("reset", "manual risk reset", null);
+  return cleared;
+}
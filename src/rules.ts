@@ -0,0 +1,367 @@
+import fs from "node:fs";
+import path from "node:path";
+import type { Asset, Candle } from "./candles.js";
+import type { WindowDuration } from "./market.js";
+import {
+  aggregateToWindows,
+  applyResolutions,
+  backtestWindows,
+  configSidePicker,
+  DEFAULT_BACKTEST_CONFIG,
+  simulateWindow,
+  type BacktestResult,
+  type MarketWindow,
+  type Resolutions,
+  type SidePicker,
+} from "./backtest.js";
+import { parseDayFilters, parseHourFilters } from "./sweep.js";
+
+/*
+ * Entry rules as data. A rule file is JSON:
+ *
+ *   {
+ *     "name": "quiet-breakout",
+ *     "entryPrice": 0.6,
+ *     "side": "momentum",          // momentum | reversal | Up | Down
+ *     "sideMinutes": 2,            // momentum/reversal: direction of the first N 1m candles
+ *     "when": [ ...conditions ]    // all must hold
+ *   }
+ *
+ * Conditions, all measured on information available after the window's first minutes:
+ *   { "move": { "minutes": 2, "minPct": 0.05, "maxPct": 1, "direction": "up" | "down" | "either" } }
+ *   { "rangePercentile": { "minutes": 2, "lookback": 288, "min": 50, "max": 100 } }
+ *   { "time": { "hours": "8-15", "days": "weekdays" } }
+ *   { "volatility": { "lookbackMinutes": 60, "minPct": 0.02, "maxPct": 0.1 } }
+ *   { "cell": { "lookbackDays": 7, "minTrades": 5, "minWinRate": 60 } }
+ *       win rate of the default strategy in this window's UTC hour × weekday cell over the
+ *       previous days, like the live filter matrix; cells under minTrades pass
+ *   { "all": [ ... ] }, { "any": [ ... ] }, { "not": { ... } }
+ */
+
+export type RuleCondition =
+  | { move: { minutes: number; minPct?: number; maxPct?: number; direction?: "up" | "down" | "either" } }
+  | { rangePercentile: { minutes: number; lookback?: number; min?: number; max?: number } }
+  | { time: { hours?: string; days?: string } }
+  | { volatility: { lookbackMinutes: number; minPct?: number; maxPct?: number } }
+  | { cell: { lookbackDays?: number; minTrades?: number; minWinRate?: number; maxWinRate?: number } }
+  | { all: RuleCondition[] }
+  | { any: RuleCondition[] }
+  | { not: RuleCondition };
+
+export interface EntryRule {
+  name: string;
+  description?: string;
+  entryPrice: number;
+  side: "momentum" | "reversal" | "Up" | "Down";
+  sideMinutes?: number;
+  when?: RuleCondition[];
+}
+
+export interface RuleBacktest {
+  rule: EntryRule;
+  file: string;
+  results: BacktestResult[];
+}
+
+const DEFAULT_RANGE_LOOKBACK = 288; // windows; one day of 5m windows
+const DEFAULT_CELL_LOOKBACK_DAYS = 7; // the live filter matrix's history
+const DEFAULT_CELL_MIN_TRADES = 5;    // the live filter's MIN_SAMPLES
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Read and validate a rule file. Throws with the file name on any problem. */
+export function loadRuleFile(file: string): EntryRule {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(file, "utf8"));
+  } catch (err) {
+    throw new Error(`${file}: ${(err as Error).message}`);
+  }
+
+  const rule = raw as EntryRule;
+  const fail = (msg: string): never => {
+    throw new Error(`${file}: ${msg}`);
+  };
+  if (typeof rule !== "object" || rule === null) fail("expected a JSON object");
+  if (typeof rule.name !== "string" || !rule.name) rule.name = path.basename(file, path.extname(file));
+  if (typeof rule.entryPrice !== "number" || rule.entryPrice <= 0 || rule.entryPrice >= 1) {
+    fail(`"entryPrice" must be a number between 0 and 1`);
+  }
+  if (!["momentum", "reversal", "Up", "Down"].includes(rule.side)) {
+    fail(`"side" must be momentum, reversal, Up or Down`);
+  }
+  if ((rule.side === "momentum" || rule.side === "reversal") && !isPositiveInt(rule.sideMinutes ?? 1)) {
+    fail(`"sideMinutes" must be a whole number of at least 1`);
+  }
+  if (rule.when !== undefined && !Array.isArray(rule.when)) fail(`"when" must be a list of conditions`);
+  for (const c of rule.when ?? []) validateCondition(c, fail);
+  return rule;
+}
+
+function isPositiveInt(n: unknown): boolean {
+  return typeof n === "number" && Number.isInteger(n) && n >= 1;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function validateCondition(c: RuleCondition, fail: (msg: string) => never): void {
+  if (!isObject(c)) fail("each condition must be an object");
+  const keys = Object.keys(c);
+  if (keys.length !== 1) fail(`each condition needs exactly one key, got ${keys.join(", ") || "none"}`);
+  const value = (c as Record<string, unknown>)[keys[0]];
+  if (keys[0] !== "all" && keys[0] !== "any" && !isObject(value)) fail(`"${keys[0]}" must be an object`);
+
+  if ("move" in c) {
+    if (!isPositiveInt(c.move.minutes)) fail(`move.minutes must be a whole number of at least 1`);
+  } else if ("rangePercentile" in c) {
+    if (!isPositiveInt(c.rangePercentile.minutes)) fail(`rangePercentile.minutes must be a whole number of at least 1`);
+    if (c.rangePercentile.lookback !== undefined && !isPositiveInt(c.rangePercentile.lookback)) {
+      fail(`rangePercentile.lookback must be a whole number of windows`);
+    }
+  } else if ("time" in c) {
+    try {
+      if (c.time.hours !== undefined) parseHourFilters(c.time.hours);
+      if (c.time.days !== undefined) parseDayFilters(c.time.days);
+    } catch (err) {
+      fail((err as Error).message);
+    }
+  } else if ("volatility" in c) {
+    if (!isPositiveInt(c.volatility.lookbackMinutes)) fail(`volatility.lookbackMinutes must be a whole number of at least 1`);
+  } else if ("cell" in c) {
+    if (c.cell.lookbackDays !== undefined && !isPositiveInt(c.cell.lookbackDays)) {
+      fail(`cell.lookbackDays must be a whole number of at least 1`);
+    }
+    if (c.cell.minTrades !== undefined && !isPositiveInt(c.cell.minTrades)) {
+      fail(`cell.minTrades must be a whole number of at least 1`);
+    }
+    for (const key of ["minWinRate", "maxWinRate"] as const) {
+      const rate = c.cell[key];
+      if (rate !== undefined && (typeof rate !== "number" || rate < 0 || rate > 100)) {
+        fail(`cell.${key} must be a percentage between 0 and 100`);
+      }
+    }
+  } else if ("all" in c || "any" in c) {
+    const list = "all" in c ? c.all : c.any;
+    if (!Array.isArray(list)) fail(`"${keys[0]}" must be a list of conditions`);
+    for (const inner of list) validateCondition(inner, fail);
+  } else if ("not" in c) {
+    validateCondition(c.not, fail);
+  } else {
+    fail(`unknown condition "${keys[0]}"`);
+  }
+}
+
+/** Percent move from the window's open to the close of its Nth 1m candle, or null if too few candles. */
+function movePct(w: MarketWindow, minutes: number): number | null {
+  if (w.candles.length < minutes) return null;
+  const first = w.candles[0].open;
+  return ((w.candles[minutes - 1].close - first) / first) * 100;
+}
+
+/** High–low range of the window's first N 1m candles, as a percent of the open. */
+function rangePct(w: MarketWindow, minutes: number): number | null {
+  if (w.candles.length < minutes) return null;
+  const first = w.candles.slice(0, minutes);
+  return ((Math.max(...first.map((c) => c.high)) - Math.min(...first.map((c) => c.low))) / first[0].open) * 100;
+}
+
+function inRange(value: number, min?: number, max?: number): boolean {
+  return (min === undefined || value >= min) && (max === undefined || value <= max);
+}
+
+/** Index of the first candle opening at or after `time` (candles sorted by open time). */
+function lowerBound(candles: Candle[], time: number): number {
+  let lo = 0;
+  let hi = candles.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (candles[mid].openTime < time) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+}
+
+/**
+ * Compile a rule into a SidePicker for one asset. `allWindows` and `candles` are the full history,
+ * so lookback conditions see windows and candles before the one being decided.
+ */
+export function compileRule(rule: EntryRule, allWindows: MarketWindow[], candles: Candle[]): SidePicker {
+  const windowIndex = new Map(allWindows.map((w, i) => [w.startTime, i]));
+
+  const compile = (c: RuleCondition): ((w: MarketWindow) => boolean) => {
+    if ("all" in c) {
+      const inner = c.all.map(compile);
+      return (w) => inner.every((test) => test(w));
+    }
+    if ("any" in c) {
+      const inner = c.any.map(compile);
+      return (w) => inner.some((test) => test(w));
+    }
+    if ("not" in c) {
+      const inner = compile(c.not);
+      return (w) => !inner(w);
+    }
+
+    if ("move" in c) {
+      const { minutes, minPct, maxPct, direction = "either" } = c.move;
+      return (w) => {
+        const move = movePct(w, minutes);
+        if (move === null) return false;
+        if (direction === "up" && move < 0) return false;
+        if (direction === "down" && move > 0) return false;
+        return inRange(Math.abs(move), minPct, maxPct);
+      };
+    }
+
+    if ("rangePercentile" in c) {
+      const { minutes, lookback = DEFAULT_RANGE_LOOKBACK, min, max } = c.rangePercentile;
+      const ranges = allWindows.map((w) => rangePct(w, minutes));
+      return (w) => {
+        // Where this window's opening range ranks among the previous `lookback` windows
+        const i = windowIndex.get(w.startTime);
+        const current = i === undefined ? null : ranges[i];
+        if (i === undefined || current === null) return false;
+        const history = ranges.slice(Math.max(0, i - lookback), i).filter((r): r is number => r !== null);
+        if (history.length === 0) return false;
+        return inRange((history.filter((r) => r <= current).length / history.length) * 100, min, max);
+      };
+    }
+
+    if ("time" in c) {
+      const hourFilters = parseHourFilters(c.time.hours ?? "all");
+      const dayFilters = parseDayFilters(c.time.days ?? "all");
+      const hours = hourFilters.some((f) => f.values === null) ? null : new Set(hourFilters.flatMap((f) => f.values!));
+      const days = dayFilters.some((f) => f.values === null) ? null : new Set(dayFilters.flatMap((f) => f.values!));
+      return (w) => {
+        const dt = new Date(w.startTime);
+        return (!hours || hours.has(dt.getUTCHours())) && (!days || days.has(dt.getUTCDay()));
+      };
+    }
+
+    if ("cell" in c) {
+      const {
+        lookbackDays = DEFAULT_CELL_LOOKBACK_DAYS,
+        minTrades = DEFAULT_CELL_MIN_TRADES,
+        minWinRate,
+        maxWinRate,
+      } = c.cell;
+      // Only windows before the one being decided count, so the rule never sees its own outcome
+      const defaultConfig = { ...DEFAULT_BACKTEST_CONFIG };
+      const outcomes = allWindows.map((w) => simulateWindow(w, defaultConfig, configSidePicker(defaultConfig)));
+      const cellOf = (time: number) => {
+        const dt = new Date(time);
+        return dt.getUTCHours() * 7 + dt.getUTCDay();
+      };
+      const cellWindows = new Map<number, number[]>(); // cell → window indexes, oldest first
+      allWindows.forEach((w, i) => {
+        const cell = cellOf(w.startTime);
+        if (!cellWindows.has(cell)) cellWindows.set(cell, []);
+        cellWindows.get(cell)!.push(i);
+      });
+      return (w) => {
+        const i = windowIndex.get(w.startTime);
+        if (i === undefined) return false;
+        let trades = 0;
+        let wins = 0;
+        for (const j of cellWindows.get(cellOf(w.startTime)) ?? []) {
+          if (j >= i) break;
+          const outcome = outcomes[j];
+          if (!outcome || allWindows[j].startTime < w.startTime - lookbackDays * DAY_MS) continue;
+          trades++;
+          if (outcome.isWin) wins++;
+        }
+        // Like the live filter: too few trades in the cell gives it the benefit of the doubt
+        if (trades < minTrades) return true;
+        return inRange((wins / trades) * 100, minWinRate, maxWinRate);
+      };
+    }
+
+    // Volatility regime: average 1m range over the minutes before the window opens
+    const { lookbackMinutes, minPct, maxPct } = c.volatility;
+    return (w) => {
+      const from = lowerBound(candles, w.startTime - lookbackMinutes * 60_000);
+      const to = lowerBound(candles, w.startTime);
+      if (to <= from) return false;
+      let sum = 0;
+      for (let k = from; k < to; k++) sum += ((candles[k].high - candles[k].low) / candles[k].open) * 100;
+      return inRange(sum / (to - from), minPct, maxPct);
+    };
+  };
+
+  const conditions = (rule.when ?? []).map(compile);
+
+  return (w) => {
+    if (!conditions.every((test) => test(w))) return null;
+    if (rule.side === "Up" || rule.side === "Down") return rule.side;
+    const move = movePct(w, rule.sideMinutes ?? 1);
+    if (move === null) return null;
+    const momentum = move >= 0 ? "Up" : "Down";
+    if (rule.side === "momentum") return momentum;
+    return momentum === "Up" ? "Down" : "Up";
+  };
+}
+
+/** Backtest each rule file against every asset, sharing one window aggregation per asset. */
+export function runRuleBacktests(
+  files: string[],
+  candleData: Map<Asset, Candle[]>,
+  duration: WindowDuration,
+  bankroll: number = DEFAULT_BACKTEST_CONFIG.bankroll,
+  resolutions?: Resolutions
+): RuleBacktest[] {
+  const rules = files.map((file) => ({ file, rule: loadRuleFile(file) }));
+  const windowsByAsset = new Map<Asset, MarketWindow[]>();
+  for (const [asset, candles] of candleData) {
+    windowsByAsset.set(asset, aggregateToWindows(candles, duration));
+  }
+
+  return rules.map(({ file, rule }) => {
+    const config = { ...DEFAULT_BACKTEST_CONFIG, buyPrice: rule.entryPrice, bankroll };
+    const results: BacktestResult[] = [];
+    for (const [asset, windows] of windowsByAsset) {
+      const pickSide = compileRule(rule, windows, candleData.get(asset)!);
+      if (!resolutions) {
+        results.push(backtestWindows(asset, duration, windows, config, pickSide));
+        continue;
+      }
+      const { labeled, comparison } = applyResolutions(windows, resolutions.get(asset) ?? new Map());
+      results.push({
+        ...backtestWindows(asset, duration, labeled, config, pickSide),
+        outcomeSource: "polymarket",
+        labelComparison: comparison,
+      });
+    }
+    return { rule, file, results };
+  });
+}
+
+export function printRuleComparison(backtests: RuleBacktest[]): void {
+  const durations = [...new Set(backtests.flatMap((b) => b.results.map((r) => r.duration)))].join(", ");
+  console.log(`\n=== Entry Rule Comparison (${durations || "no"} windows) ===\n`);
+  for (const b of backtests) {
+    console.log(`${b.rule.name} (${b.file})${b.rule.description ? ` — ${b.rule.description}` : ""}`);
+  }
+  console.log("");
+
+  const header =
+    "Rule                 | Asset | Entry | Trades | Win Rate | Total P&L |  Max DD | Profit Factor | Sharpe";
+  console.log(header);
+  console.log("-".repeat(header.length));
+
+  // Best total P&L first, across every rule and asset
+  const rows = backtests
+    .flatMap((b) => b.results.map((r) => ({ name: b.rule.name, r })))
+    .sort((a, b) => b.r.totalProfit - a.r.totalProfit);
+  for (const { name, r } of rows) {
+    const pnlSign = r.totalProfit >= 0 ? "+" : "";
+    console.log(
+      `${name.slice(0, 20).padEnd(20)} | ${r.asset.padEnd(5)} | ${r.config.buyPrice.toFixed(2)}  | ` +
+      `${String(r.tradesEntered).padStart(6)} | ${r.winRate.toFixed(1).padStart(7)}% | ` +
+      `${pnlSign}$${r.totalProfit.toFixed(2).padStart(7)} | $${r.maxDrawdown.toFixed(2).padStart(6)} | ` +
+      `${(isFinite(r.profitFactor) ? r.profitFactor.toFixed(2) : "inf").padStart(13)} | ` +
+      `${(r.sharpe === null ? "N/A" : r.sharpe.toFixed(2)).padStart(6)}`
+    );
+  }
+  console.log("");
+}
@@ -0,0 +1,77 @@
+import { binomialUpperTail, sampleSizeForPower, wilsonInterval } from "./probability.js";
+
+/** Is a win rate above break-even, or could it be noise? Set from --alpha and --power. */
+export interface SignificanceOptions {
+  alpha: number; // one-sided test level; the win-rate interval is two-sided at 1 - alpha
+  power: number; // chance of confirming the observed edge if it's real, for the trades-needed estimate
+}
+
+export const DEFAULT_SIGNIFICANCE_OPTIONS: SignificanceOptions = { alpha: 0.05, power: 0.8 };
+let significanceOptions: SignificanceOptions = { ...DEFAULT_SIGNIFICANCE_OPTIONS };
+
+export function setSignificanceOptions(options: SignificanceOptions): void {
+  significanceOptions = { ...options };
+}
+
+export function getSignificanceOptions(): SignificanceOptions {
+  return significanceOptions;
+}
+
+/** Rates are percentages, like the win rates the reports print. */
+export interface EdgeSignificance {
+  trades: number;        // resolved trades tested
+  wins: number;
+  winRate: number;
+  ciLower: number;       // Wilson interval on the win rate
+  ciUpper: number;
+  breakEven: number;
+  edge: number;          // win rate minus break-even, in points
+  pValue: number;        // one-sided binomial test: P(at least this many wins | true rate = break-even)
+  significant: boolean;  // pValue < alpha
+  tradesNeeded: number | null;     // total trades to confirm this edge at the chosen power; null without a positive edge
+  additionalTrades: number | null; // tradesNeeded minus trades so far
+}
+
+/** Test `wins` of `trades` against a break-even rate (0-1). Null when there's nothing to test. */
+export function testEdge(
+  wins: number,
+  trades: number,
+  breakEven: number,
+  options: SignificanceOptions = significanceOptions
+): EdgeSignificance | null {
+  if (trades <= 0 || !(breakEven > 0 && breakEven < 1)) return null;
+  const rate = wins / trades;
+  const ci = wilsonInterval(wins, trades, 1 - options.alpha);
+  const pValue = binomialUpperTail(wins, trades, breakEven);
+  const tradesNeeded = rate > breakEven ? sampleSizeForPower(breakEven, rate, options.alpha, options.power) : null;
+  return {
+    trades,
+    wins,
+    winRate: rate * 100,
+    ciLower: ci.lower * 100,
+    ciUpper: ci.upper * 100,
+    breakEven: breakEven * 100,
+    edge: (rate - breakEven) * 100,
+    pValue,
+    significant: pValue < options.alpha,
+    tradesNeeded,
+    additionalTrades: tradesNeeded === null ? null : Math.max(0, tradesNeeded - trades),
+  };
+}
+
+export function formatPValue(p: number): string {
+  return p < 0.001 ? "<0.001" : p.toFixed(3);
+}
+
+/** One-line verdict, e.g. "+3.0pp is within the noise (p = 0.158); ~1333 more trades to confirm at 80% power". */
+export function describeEdgeSignificance(s: EdgeSignificance, options: SignificanceOptions = significanceOptions): string {
+  const edge = `${s.edge >= 0 ? "+" : ""}${s.edge.toFixed(1)}pp`;
+  const p = s.pValue < 0.001 ? "p < 0.001" : `p = ${formatPValue(s.pValue)}`;
+  if (s.significant) return `${edge} is significant (${p}, alpha ${options.alpha})`;
+  if (s.additionalTrades === null) return `no edge over break-even (${p})`;
+  if (s.additionalTrades === 0) return `${edge} is within the noise (${p}) even after ${s.trades} trades`;
+  return (
+    `${edge} is within the noise (${p}); ` +
+    `~${s.additionalTrades} more trades to confirm at ${Math.round(options.power * 100)}% power`
+  );
+}
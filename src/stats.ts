@@ -0,0 +1,334 @@
+import {
+  getTradeStats,
+  getActiveRiskHalts,
+  getRecentRiskHalts,
+  getLiveRiskSnapshot,
+  getRuns,
+  type RunRow,
+  type Trade,
+  type TradeFilter,
+} from "./db.js";
+import { getMarketEndTime } from "./market.js";
+import { WIN_PAYOUT } from "./backtest.js";
+import { now } from "./clock.js";
+import {
+  testEdge,
+  describeEdgeSignificance,
+  formatPValue,
+  getSignificanceOptions,
+  type EdgeSignificance,
+} from "./significance.js";
+
+const OVERDUE_MS = 60 * 60 * 1000;
+const PRICE_BUCKET = 0.05; // entry-price group width
+const DAY_NAMES = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+export const GROUP_BY_KEYS = ["day", "hour", "weekday", "side", "price", "run", "strategy"] as const;
+export type GroupBy = (typeof GROUP_BY_KEYS)[number];
+
+const GROUP_TITLES: Record<GroupBy, string> = {
+  day: "Day (UTC)",
+  hour: "Hour of Day (UTC)",
+  weekday: "Weekday (UTC)",
+  side: "Side",
+  price: "Entry Price",
+  run: "Run",
+  strategy: "Strategy",
+};
+
+export interface StatsOptions {
+  filter: TradeFilter;
+  groupBy: GroupBy[];
+}
+
+export const DEFAULT_STATS_OPTIONS: StatsOptions = { filter: {}, groupBy: [] };
+
+/** Results for one group of trades. Rates are percentages; null when there's nothing to compute them from. */
+export interface GroupStats {
+  group: string;
+  trades: number;
+  wins: number;
+  losses: number;
+  pending: number;
+  timeouts: number;
+  winRate: number | null;   // of resolved trades
+  profit: number;
+  avgEntry: number | null;  // mean buy price
+  breakEven: number | null; // win rate needed at this group's average win and loss, or its average entry price
+  edge: number | null;      // win rate minus break-even, in points
+  significance: EdgeSignificance | null; // binomial test of the win rate against break-even
+}
+
+function tradeTime(t: Trade): Date {
+  return new Date(`${t.created_at.replace(" ", "T")}Z`);
+}
+
+/** Group label for a trade, and a value that puts the groups in a natural order. */
+function groupKey(t: Trade, by: GroupBy): [label: string, order: number | string] {
+  switch (by) {
+    case "day":
+      return [t.created_at.slice(0, 10), t.created_at.slice(0, 10)];
+    case "hour": {
+      const hour = tradeTime(t).getUTCHours();
+      return [`${String(hour).padStart(2, "0")}:00`, hour];
+    }
+    case "weekday": {
+      const day = tradeTime(t).getUTCDay();
+      return [DAY_NAMES[day], day];
+    }
+    case "side":
+      return [t.side, t.side];
+    case "price": {
+      const low = Math.floor(t.buy_price / PRICE_BUCKET + 1e-9) * PRICE_BUCKET;
+      return [`$${low.toFixed(2)}-${(low + PRICE_BUCKET).toFixed(2)}`, low];
+    }
+    case "run":
+      return t.run_id === null ? ["no run", -1] : [`#${t.run_id}`, t.run_id];
+    case "strategy":
+      return [t.strategy_id, t.strategy_id];
+  }
+}
+
+export function summarizeTrades(group: string, trades: Trade[]): GroupStats {
+  const wins = trades.filter((t) => t.outcome === "win");
+  const losses = trades.filter((t) => t.outcome === "lose");
+  const resolved = wins.length + losses.length;
+  const winRate = resolved > 0 ? (wins.length / resolved) * 100 : null;
+
+  let breakEven: number | null = null;
+  if (wins.length > 0 && losses.length > 0) {
+    const avgWin = wins.reduce((sum, t) => sum + (t.profit ?? 0), 0) / wins.length;
+    const avgLossAbs = Math.abs(losses.reduce((sum, t) => sum + (t.profit ?? 0), 0) / losses.length);
+    if (avgWin + avgLossAbs > 0) breakEven = (avgLossAbs / (avgWin + avgLossAbs)) * 100;
+  }
+  // All wins or all losses: held to settlement, a share bought at p breaks even winning p of the time
+  if (breakEven === null && resolved > 0) {
+    const avgResolvedEntry = [...wins, ...losses].reduce((sum, t) => sum + t.buy_price, 0) / resolved;
+    breakEven = (avgResolvedEntry / WIN_PAYOUT) * 100;
+  }
+
+  return {
+    group,
+    trades: trades.length,
+    wins: wins.length,
+    losses: losses.length,
+    pending: trades.filter((t) => t.outcome === null).length,
+    timeouts: trades.filter((t) => t.outcome === "timeout").length,
+    winRate,
+    profit: trades.reduce((sum, t) => sum + (t.profit ?? 0), 0),
+    avgEntry: trades.length > 0 ? trades.reduce((sum, t) => sum + t.buy_price, 0) / trades.length : null,
+    breakEven,
+    edge: winRate !== null && breakEven !== null ? winRate - breakEven : null,
+    significance: breakEven !== null ? testEdge(wins.length, resolved, breakEven / 100) : null,
+  };
+}
+
+/** Split trades by one dimension. Strategies are ranked by P&L; everything else keeps its natural order. */
+export function groupTrades(trades: Trade[], by: GroupBy): GroupStats[] {
+  const groups = new Map<string, { order: number | string; trades: Trade[] }>();
+  for (const t of trades) {
+    const [label, order] = groupKey(t, by);
+    const group = groups.get(label) ?? { order, trades: [] };
+    group.trades.push(t);
+    groups.set(label, group);
+  }
+
+  const sorted = [...groups.entries()].sort(([, a], [, b]) =>
+    a.order < b.order ? -1 : a.order > b.order ? 1 : 0
+  );
+  const stats = sorted.map(([label, g]) => summarizeTrades(label, g.trades));
+  return by === "strategy" ? stats.sort((a, b) => b.profit - a.profit) : stats;
+}
+
+function describeFilter(filter: TradeFilter): string | null {
+  const parts: string[] = [];
+  if (filter.since !== undefined) parts.push(`since ${new Date(filter.since).toISOString()}`);
+  if (filter.until !== undefined) parts.push(`until ${new Date(filter.until).toISOString()}`);
+  if (filter.mode !== undefined) parts.push(`${filter.mode} only`);
+  if (filter.slugPrefix !== undefined) parts.push(`slugs starting "${filter.slugPrefix}"`);
+  return parts.length > 0 ? parts.join(", ") : null;
+}
+
+/** The requested breakdowns; strategies are always broken out when there's more than one. */
+function reportGroupings(options: StatsOptions, trades: Trade[]): GroupBy[] {
+  const groupBy = [...options.groupBy];
+  if (!groupBy.includes("strategy") && new Set(trades.map((t) => t.strategy_id)).size > 1) {
+    groupBy.unshift("strategy");
+  }
+  return groupBy;
+}
+
+/** Print totals, breakdowns and the most recent trades, for all trades or those matching the filter. */
+export function printTradeStats(title = "Paper Trading Stats", options: StatsOptions = DEFAULT_STATS_OPTIONS): void {
+  const stats = getTradeStats(options.filter);
+
+  console.log(`\n=== ${title} ===\n`);
+  const filterText = describeFilter(options.filter);
+  if (filterText) console.log(`Filter:        ${filterText}`);
+  console.log(`Total trades:  ${stats.total}`);
+  console.log(`Wins:          ${stats.wins}`);
+  console.log(`Losses:        ${stats.losses}`);
+  // Pending trades whose market ended over an hour ago are waiting on the stale-trade sweeper
+  const overdue = stats.trades.filter((t) => t.outcome === null && now() - getMarketEndTime(t.market_slug) > OVERDUE_MS);
+  console.log(`Pending:       ${stats.pending}${overdue.length > 0 ? ` (${overdue.length} overdue, retrying with backoff)` : ""}`);
+  console.log(`Timeouts:      ${stats.timeouts}`);
+  console.log(
+    `Total P&L:     ${stats.totalProfit >= 0 ? "+" : ""}$${stats.totalProfit.toFixed(2)}`
+  );
+
+  if (stats.total > 0) {
+    // The same numbers the group tables and --export report
+    const summary = summarizeTrades("all", stats.trades);
+    console.log(`Win rate:      ${formatPct(summary.winRate)}`);
+    if (stats.avgWin !== null) console.log(`Avg win:       +$${stats.avgWin.toFixed(2)}`);
+    if (stats.avgLoss !== null) console.log(`Avg loss:      -$${Math.abs(stats.avgLoss).toFixed(2)}`);
+
+    if (summary.breakEven !== null && summary.edge !== null) {
+      const sign = summary.edge >= 0 ? "+" : "";
+      console.log(`Break-even:    ${summary.breakEven.toFixed(1)}%`);
+      console.log(`Edge:          ${sign}${summary.edge.toFixed(1)}pp`);
+
+      const sig = summary.significance;
+      if (sig) {
+        const confidence = Math.round((1 - getSignificanceOptions().alpha) * 100);
+        console.log(`Win rate CI:   ${sig.ciLower.toFixed(1)}-${sig.ciUpper.toFixed(1)}% (Wilson, ${confidence}%)`);
+        console.log(`Significance:  ${describeEdgeSignificance(sig)}`);
+      }
+    }
+
+    for (const by of reportGroupings(options, stats.trades)) {
+      printGroupTable(by, groupTrades(stats.trades, by));
+      if (by === "run") printRunConfigs(stats.trades);
+    }
+
+    const timedOut = stats.trades.filter((t) => t.outcome === "timeout").slice(0, 10);
+    if (timedOut.length > 0) {
+      console.log("\n--- Timed Out ---\n");
+      for (const t of timedOut) {
+        console.log(`#${t.id} ${t.market_slug} [${t.strategy_id}]: ${t.timeout_reason ?? "no reason recorded"}`);
+      }
+    }
+
+    console.log("\n--- Recent Trades ---\n");
+    console.log(
+      "ID  | Side | Buy    | Outcome | Profit  | Strategy     | Market"
+    );
+    console.log("-".repeat(85));
+
+    for (const t of stats.trades.slice(0, 20)) {
+      const outcome = t.outcome ?? "pending";
+      const profit =
+        t.profit !== null
+          ? `${t.profit >= 0 ? "+" : ""}$${t.profit.toFixed(2)}`
+          : "   -";
+      console.log(
+        `#${String(t.id).padEnd(2)} | ${t.side.padEnd(4)} | $${t.buy_price.toFixed(2)} | ${outcome.padEnd(7)} | ${profit.padEnd(7)} | ${t.strategy_id.padEnd(12)} | ${t.market_slug}`
+      );
+    }
+  }
+
+  printRiskStatus(stats.trades.some((t) => t.mode === "live"));
+}
+
+function formatPct(value: number | null): string {
+  return value === null ? "N/A" : `${value.toFixed(1)}%`;
+}
+
+function printGroupTable(by: GroupBy, groups: GroupStats[]): void {
+  console.log(`\n--- By ${GROUP_TITLES[by]} ---\n`);
+  const header =
+    "Group            | Trades | Wins | Losses | Pending | Win Rate | Avg Entry | Break-even |    Edge | p-value |  Total P&L";
+  console.log(header);
+  console.log("-".repeat(header.length));
+  for (const g of groups) {
+    const edge = g.edge === null ? "N/A" : `${g.edge >= 0 ? "+" : ""}${g.edge.toFixed(1)}pp`;
+    const pnl = `${g.profit >= 0 ? "+" : "-"}$${Math.abs(g.profit).toFixed(2)}`;
+    const avgEntry = g.avgEntry === null ? "N/A" : `$${g.avgEntry.toFixed(3)}`;
+    console.log(
+      `${g.group.padEnd(16)} | ${String(g.trades).padStart(6)} | ${String(g.wins).padStart(4)} | ` +
+      `${String(g.losses).padStart(6)} | ${String(g.pending).padStart(7)} | ${formatPct(g.winRate).padStart(8)} | ` +
+      `${avgEntry.padStart(9)} | ${formatPct(g.breakEven).padStart(10)} | ${edge.padStart(7)} | ` +
+      `${(g.significance ? formatPValue(g.significance.pValue) : "N/A").padStart(7)} | ${pnl.padStart(10)}`
+    );
+  }
+}
+
+interface RunConfig {
+  buyThreshold: number;
+  buyMaxPrice: number;
+  positionSize: number;
+  strategies: string[];
+  series: string[];
+  filter: { mode: string; confidence: number; priorStrength: number };
+  filterMatrix?: unknown;
+}
+
+/** The runs behind these trades, each with the settings it traded under. */
+function runsFor(trades: Trade[]): RunRow[] {
+  const ids = new Set(trades.map((t) => t.run_id));
+  return getRuns().filter((r) => ids.has(r.id));
+}
+
+function printRunConfigs(trades: Trade[]): void {
+  const runs = runsFor(trades);
+  if (runs.length === 0) return;
+  console.log("");
+  for (const r of runs) {
+    const c = JSON.parse(r.config) as RunConfig;
+    const filter = c.filterMatrix
+      ? `${c.filter.mode} filter${c.filter.mode === "bayes" ? ` (${c.filter.confidence}, prior ${c.filter.priorStrength})` : ""}`
+      : "no filter";
+    const stop = r.stop_reason ?? (r.stopped_at ? "stopped" : "running or exited uncleanly");
+    console.log(
+      `#${r.id} ${r.mode} ${r.started_at} → ${r.stopped_at ?? "?"} (${stop}): ` +
+      `${c.series.join(",")} [${c.strategies.join(",")}] buy $${c.buyThreshold.toFixed(2)}-$${c.buyMaxPrice.toFixed(2)}, ` +
+      `$${c.positionSize}/entry, ${filter}; ${r.host} pid ${r.pid}, ${r.code_version ?? "unknown version"}`
+    );
+  }
+}
+
+/** The same numbers as printTradeStats, for --export. */
+export function tradeStatsToJson(options: StatsOptions): object {
+  const { trades } = getTradeStats(options.filter);
+  const iso = (ms: number | undefined) => (ms === undefined ? null : new Date(ms).toISOString());
+  return {
+    generatedAt: new Date().toISOString(),
+    filter: {
+      since: iso(options.filter.since),
+      until: iso(options.filter.until),
+      mode: options.filter.mode ?? null,
+      slugPrefix: options.filter.slugPrefix ?? null,
+    },
+    summary: summarizeTrades("all", trades),
+    groups: Object.fromEntries(reportGroupings(options, trades).map((by) => [by, groupTrades(trades, by)])),
+    runs: options.groupBy.includes("run")
+      ? runsFor(trades).map((r) => ({ ...r, argv: JSON.parse(r.argv), config: JSON.parse(r.config) }))
+      : undefined,
+  };
+}
+
+/** Live risk state: today's numbers, active halts and the halt log. */
+function printRiskStatus(hasLiveTrades: boolean): void {
+  const halts = getRecentRiskHalts();
+  const active = getActiveRiskHalts();
+  if (halts.length === 0 && !hasLiveTrades) return;
+
+  const risk = getLiveRiskSnapshot();
+  console.log("\n--- Live Risk ---\n");
+  console.log(`Today's P&L:   ${risk.dailyPnL >= 0 ? "+" : "-"}$${Math.abs(risk.dailyPnL).toFixed(2)}`);
+  console.log(`Loss streak:   ${risk.consecutiveLosses}`);
+  console.log(`Open exposure: $${risk.openExposure.toFixed(2)}`);
+  console.log(`Orders (1h):   ${risk.ordersLastHour}`);
+  console.log(`Status:        ${active.length > 0 ? "HALTED" : "OK"}`);
+  for (const h of active) {
+    console.log(`  ${h.kind}: ${h.reason}${h.expires_at ? ` (until ${h.expires_at} UTC)` : ""}`);
+  }
+
+  if (halts.length > 0) {
+    console.log("\nRecent halts:");
+    for (const h of halts) {
+      const state = h.kind === "reset" ? "" : h.cleared_at ? ` [cleared ${h.cleared_at}]` : h.expires_at ? ` [until ${h.expires_at}]` : "";
+      console.log(`  ${h.created_at}  ${h.kind.padEnd(18)} ${h.reason}${state}`);
+    }
+  }
+}
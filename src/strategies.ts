@@ -0,0 +1,101 @@
+import type { MarketInfo } from "./market.js";
+import type { BookView } from "./orderbook.js";
+
+export interface EntrySignal {
+  side: "Up" | "Down";
+  tokenId: string;
+  price: number;       // price that triggered the signal
+  limitPrice?: number; // most the strategy will pay per share; defaults to price
+}
+
+/**
+ * A paper strategy. The runner in strategy.ts feeds every strategy the same
+ * price stream and records at most one trade per strategy per market.
+ */
+export interface Strategy {
+  id: string;
+  description: string;
+  onWindowStart?(market: MarketInfo): void;
+  /**
+   * Return a signal to enter, or null to keep watching. `price` is the best bid
+   * (or last trade); `book` is the token's full book once a snapshot has arrived.
+   */
+  onPrice(market: MarketInfo, tokenId: string, price: number, book: BookView | null): EntrySignal | null;
+  onWindowEnd?(market: MarketInfo): void;
+}
+
+export const DEFAULT_STRATEGY_ID = "threshold";
+
+/** Side of the market a token belongs to, or null if it's not one of ours. */
+export function sideForToken(market: MarketInfo, tokenId: string): "Up" | "Down" | null {
+  if (tokenId === market.upTokenId) return "Up";
+  if (tokenId === market.downTokenId) return "Down";
+  return null;
+}
+
+/**
+ * Buy whichever side first trades inside [buyPrice, maxPrice]. With
+ * priceSource "ask" the rule uses the best ask — the price we would pay —
+ * and waits until the token has a synced book.
+ */
+export function createThresholdStrategy(
+  id: string,
+  buyPrice: number,
+  maxPrice: number,
+  priceSource: "bid" | "ask" = "bid"
+): Strategy {
+  // Track tokens that already logged "price too high" to avoid log spam
+  const priceHighLogged = new Set<string>();
+
+  return {
+    id,
+    description: `buy first side with ${priceSource} in $${buyPrice.toFixed(2)}-$${maxPrice.toFixed(2)}`,
+    onWindowEnd() {
+      priceHighLogged.clear();
+    },
+    onPrice(market, tokenId, bidPrice, book) {
+      let price = bidPrice;
+      if (priceSource === "ask") {
+        if (!book?.synced || book.bestAsk === null) return null;
+        price = book.bestAsk;
+      }
+
+      if (price < buyPrice) return null;
+      if (price > maxPrice) {
+        const key = `${market.slug}:${tokenId}`;
+        if (!priceHighLogged.has(key)) {
+          priceHighLogged.add(key);
+          console.log(`\n[Strategy:${id}] Skipping ${tokenId.slice(0, 8)}... @ $${price.toFixed(2)} — price too high, market likely settled`);
+        }
+        return null;
+      }
+
+      const side = sideForToken(market, tokenId);
+      if (!side) return null;
+      // Any price inside the band is acceptable, so pay up to the max
+      return { side, tokenId, price, limitPrice: maxPrice };
+    },
+  };
+}
+
+const registry = new Map<string, Strategy>();
+
+export function registerStrategy(strategy: Strategy): void {
+  if (registry.has(strategy.id)) {
+    throw new Error(`Strategy "${strategy.id}" is already registered`);
+  }
+  registry.set(strategy.id, strategy);
+}
+
+export function getStrategy(id: string): Strategy | undefined {
+  return registry.get(id);
+}
+
+export function listStrategies(): Strategy[] {
+  return [...registry.values()];
+}
+
+// Built-in strategies
+registerStrategy(createThresholdStrategy(DEFAULT_STRATEGY_ID, 0.6, 0.85));
+registerStrategy(createThresholdStrategy("threshold-70", 0.7, 0.9));
+registerStrategy(createThresholdStrategy("threshold-ask", 0.6, 0.85, "ask"));
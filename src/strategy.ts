@@ -1,101 +1,356 @@
-import { insertTrade, resolveTrade, getOpenTrades } from "./db.js";
-import { checkResolution, type MarketInfo } from "./market.js";
+import { insertTrade, resolveTrade, exitTrade, getOpenTrades, type Trade } from "./db.js";
+import { checkResolution, getMarketEndTime, type MarketInfo } from "./market.js";
+import { now } from "./clock.js";
+import { onLiveTradeClosed } from "./risk.js";
+import { checkExit, hasExitRules, type ExitRules } from "./exits.js";
+import { getStrategy, DEFAULT_STRATEGY_ID, type Strategy } from "./strategies.js";
+import type { BookView } from "./orderbook.js";
+import { simulateBuyFill, simulateSellFill } from "./paperfill.js";
 
 export const BUY_THRESHOLD = 0.6;
-const BUY_MAX_PRICE = 0.85; // Reject prices above this — likely a settled/settling market
+export const BUY_MAX_PRICE = 0.85; // Reject prices above this — likely a settled/settling market
 const RESOLUTION_LOOP_INTERVAL = 10_000; // 10 seconds between resolution checks
 
-// Track which markets we've already bet on — seed from DB on import
+// Dollars per paper entry, sized into shares by the fill simulation
+let paperNotional = 5;
+
+// Refuse entries on a price whose message arrived longer ago than this
+export const DEFAULT_MAX_PRICE_AGE_MS = 10_000;
+let maxPriceAgeMs = DEFAULT_MAX_PRICE_AGE_MS;
+
+// Strategies fed by handlePriceUpdate
+let activeStrategies: Strategy[] = [getStrategy(DEFAULT_STRATEGY_ID)!];
+
+// Track which markets each strategy has already bet on, keyed "<strategyId>:<slug>" — seed from DB on import
 const bettedMarkets = new Set<string>(
-  getOpenTrades().map((t) => t.market_slug)
+  getOpenTrades().map((t) => betKey(t.strategy_id, t.market_slug))
 );
 
-// Current prices per token
+// Early exit rules for paper positions; empty means hold to resolution
+let exitRules: ExitRules = {};
+
+interface PaperPosition {
+  tradeId: number;
+  slug: string;
+  tokenId: string;
+  side: string;
+  size: number;
+  buyPrice: number;
+  strategyId: string;
+}
+
+// Open paper positions watched for early exits, by trade id — seed from DB on import
+const positions = new Map<number, PaperPosition>(
+  getOpenTrades()
+    .filter((t) => t.mode === "paper")
+    .map((t) => [t.id, {
+      tradeId: t.id,
+      slug: t.market_slug,
+      tokenId: t.token_id,
+      side: t.side,
+      size: t.size,
+      buyPrice: t.buy_price,
+      strategyId: t.strategy_id,
+    }])
+);
+
+// Positions that hit an exit rule but couldn't be sold yet — log once
+const exitBlockedLogged = new Set<number>();
+
+// Current prices and books per token, and when the message behind each price arrived
 const prices = new Map<string, number>();
+const books = new Map<string, BookView>();
+const priceTimes = new Map<string, number>();
 
-// Track tokens that already logged "price too high" to avoid log spam
-const priceHighLogged = new Set<string>();
+// Strategies refused an entry because the price was stale — log once per market
+const staleLogged = new Set<string>();
 
-// Settled detection — both sides above max means market is dead
-let marketSettled = false;
+// Strategies whose signal found no asks inside the limit — log once per market, keep trying
+const noFillLogged = new Set<string>();
+
+// Settled detection per market slug — both sides above max means market is dead
+const settledMarkets = new Set<string>();
 
 // Background resolution loop handle
 let resolutionTimer: ReturnType<typeof setInterval> | null = null;
 
+function betKey(strategyId: string, slug: string): string {
+  return `${strategyId}:${slug}`;
+}
+
+/** Select the strategies to run. Throws on an unknown id. */
+export function setActiveStrategies(ids: string[]): Strategy[] {
+  const selected = ids.map((id) => {
+    const strategy = getStrategy(id);
+    if (!strategy) throw new Error(`Unknown strategy "${id}"`);
+    return strategy;
+  });
+  if (selected.length === 0) throw new Error("At least one strategy is required");
+  activeStrategies = selected;
+  return selected;
+}
+
+export function setPaperNotional(dollars: number): void {
+  paperNotional = dollars;
+}
+
+export function setExitRules(rules: ExitRules): void {
+  exitRules = rules;
+}
+
+export function setMaxPriceAge(ms: number): void {
+  maxPriceAgeMs = ms;
+}
+
+export function getActiveStrategies(): Strategy[] {
+  return activeStrategies;
+}
+
 export function getLatestPrices(): Map<string, number> {
   return prices;
 }
 
+export function getLatestBook(tokenId: string): BookView | null {
+  return books.get(tokenId) ?? null;
+}
+
+/** True if any active strategy has bet on this market. */
 export function hasBet(slug: string): boolean {
-  return bettedMarkets.has(slug);
+  return activeStrategies.some((s) => bettedMarkets.has(betKey(s.id, slug)));
+}
+
+function allStrategiesBet(slug: string): boolean {
+  return activeStrategies.every((s) => bettedMarkets.has(betKey(s.id, slug)));
 }
 
-export function isMarketSettled(): boolean {
-  return marketSettled;
+/** Forget every recorded bet and open position — used when replay resets its database. */
+export function clearBets(): void {
+  bettedMarkets.clear();
+  positions.clear();
+  exitBlockedLogged.clear();
+}
+
+export function isMarketSettled(slug: string): boolean {
+  return settledMarkets.has(slug);
+}
+
+/** Notify strategies that a new market window has started. */
+export function startMarketWindow(market: MarketInfo): void {
+  for (const strategy of activeStrategies) {
+    strategy.onWindowStart?.(market);
+  }
 }
 
 /** Clear per-market state when moving to a new market window. */
-export function clearMarketState(): void {
-  priceHighLogged.clear();
-  marketSettled = false;
+export function clearMarketState(market: MarketInfo): void {
+  for (const strategy of activeStrategies) {
+    strategy.onWindowEnd?.(market);
+  }
+  settledMarkets.delete(market.slug);
+  // Positions still open at window end are held to resolution
+  for (const [tradeId, position] of positions) {
+    if (position.slug === market.slug) {
+      positions.delete(tradeId);
+      exitBlockedLogged.delete(tradeId);
+    }
+  }
+  for (const tokenId of [market.upTokenId, market.downTokenId]) {
+    prices.delete(tokenId);
+    books.delete(tokenId);
+    priceTimes.delete(tokenId);
+  }
+  for (const strategy of activeStrategies) {
+    staleLogged.delete(betKey(strategy.id, market.slug));
+    noFillLogged.delete(betKey(strategy.id, market.slug));
+  }
 }
 
 export function handlePriceUpdate(
   market: MarketInfo,
   tokenId: string,
-  price: number
+  price: number,
+  book: BookView | null = null,
+  receivedAt: number = now()
 ): void {
   prices.set(tokenId, price);
+  priceTimes.set(tokenId, receivedAt);
+  if (book) books.set(tokenId, book);
+
+  if (positions.size > 0) checkPositionExits(market, tokenId);
+
+  // Every strategy already bet on this market
+  if (allStrategiesBet(market.slug)) return;
 
   // Check if both sides are above max — market is settled/dead
-  if (!marketSettled && !bettedMarkets.has(market.slug)) {
+  if (!settledMarkets.has(market.slug)) {
     const upPrice = prices.get(market.upTokenId);
     const downPrice = prices.get(market.downTokenId);
     if (upPrice !== undefined && downPrice !== undefined &&
         upPrice > BUY_MAX_PRICE && downPrice > BUY_MAX_PRICE) {
-      marketSettled = true;
-      console.log(`\n[Strategy] Both sides above max — market settled, skipping`);
+      settledMarkets.add(market.slug);
+      console.log(`\n[Strategy] Both sides above max — ${market.slug} settled, skipping`);
       return;
     }
   }
+  if (settledMarkets.has(market.slug)) return;
+
+  for (const strategy of activeStrategies) {
+    const key = betKey(strategy.id, market.slug);
+    if (bettedMarkets.has(key)) continue;
+
+    const signal = strategy.onPrice(market, tokenId, price, book);
+    if (!signal) continue;
+
+    // A stale price is how bad entries happen — wait for a fresh one
+    const ageMs = now() - (priceTimes.get(signal.tokenId) ?? 0);
+    if (ageMs > maxPriceAgeMs) {
+      if (!staleLogged.has(key)) {
+        staleLogged.add(key);
+        console.log(
+          `\n[Strategy:${strategy.id}] Ignoring ${signal.side} signal on ${market.slug} — ` +
+          `price is ${(ageMs / 1000).toFixed(1)}s old (max ${maxPriceAgeMs / 1000}s)`
+        );
+      }
+      continue;
+    }
+
+    // Fill against the book we'd actually hit — wait for a synced one
+    const signalBook = books.get(signal.tokenId);
+    if (!signalBook?.synced) continue;
+
+    const fill = simulateBuyFill(signalBook, signal.limitPrice ?? signal.price, paperNotional);
+
+    if (fill.status === "too_small") {
+      // Won't change this window, so give the market up
+      bettedMarkets.add(key);
+      console.log(
+        `\n[Strategy:${strategy.id}] No paper fill for ${signal.side} on ${market.slug}: ` +
+        `${fill.requestedShares} shares is below the minimum, increase --size`
+      );
+      continue;
+    }
+    if (fill.avgPrice === null) {
+      // Nothing inside the limit yet — the market stays open for the next signal
+      if (!noFillLogged.has(key)) {
+        noFillLogged.add(key);
+        console.log(
+          `\n[Strategy:${strategy.id}] No paper fill for ${signal.side} on ${market.slug}: ` +
+          `no asks at or below $${fill.limitPrice.toFixed(2)}, still watching`
+        );
+      }
+      continue;
+    }
+
+    // One trade per market once something fills
+    bettedMarkets.add(key);
+
+    const tradeId = insertTrade(
+      market.slug,
+      market.conditionId,
+      signal.tokenId,
+      signal.side,
+      fill.avgPrice,
+      strategy.id,
+      fill.filledShares,
+      fill.requestedShares,
+      signal.price
+    );
+
+    if (hasExitRules(exitRules)) {
+      positions.set(tradeId, {
+        tradeId,
+        slug: market.slug,
+        tokenId: signal.tokenId,
+        side: signal.side,
+        size: fill.filledShares,
+        buyPrice: fill.avgPrice,
+        strategyId: strategy.id,
+      });
+    }
+
+    const partial = fill.status === "partial" ? ` (partial, ${fill.requestedShares} requested)` : "";
+    console.log(
+      `\n>>> VIRTUAL BUY [${strategy.id}]: ${signal.side} ${fill.filledShares} @ avg $${fill.avgPrice.toFixed(4)}${partial} ` +
+      `| signal $${signal.price.toFixed(2)} (trade #${tradeId}, market: ${market.slug})`
+    );
+  }
+}
+
+/**
+ * Sell open paper positions in this market whose exit rule has triggered.
+ * Pass a token id to only check positions in that token. Called on every
+ * price update and once a second by the paper loop so time exits fire
+ * even when the feed is quiet.
+ */
+export function checkPositionExits(market: MarketInfo, tokenId?: string): void {
+  if (!hasExitRules(exitRules)) return;
+  const msLeft = getMarketEndTime(market.slug) - now();
 
-  // Already bet on this market
-  if (bettedMarkets.has(market.slug)) return;
+  for (const position of positions.values()) {
+    if (position.slug !== market.slug) continue;
+    if (tokenId !== undefined && position.tokenId !== tokenId) continue;
 
-  // Check if price meets threshold but isn't suspiciously high (settled market)
-  if (price < BUY_THRESHOLD) return;
-  if (price > BUY_MAX_PRICE) {
-    const key = `${market.slug}:${tokenId}`;
-    if (!priceHighLogged.has(key)) {
-      priceHighLogged.add(key);
-      console.log(`\n[Strategy] Skipping ${tokenId.slice(0, 8)}... @ $${price.toFixed(2)} — price too high, market likely settled`);
+    const book = books.get(position.tokenId);
+    const bid = book?.bestBid ?? prices.get(position.tokenId) ?? null;
+    const reason = checkExit(exitRules, bid, msLeft);
+    if (!reason) continue;
+
+    const exitPrice = book?.synced ? simulateSellFill(book, position.size) : null;
+    if (exitPrice === null) {
+      if (!exitBlockedLogged.has(position.tradeId)) {
+        exitBlockedLogged.add(position.tradeId);
+        console.log(`\n[Strategy:${position.strategyId}] ${reason} exit for trade #${position.tradeId} blocked — not enough bid depth, retrying`);
+      }
+      continue;
     }
-    return;
+
+    exitTrade(position.tradeId, exitPrice, position.buyPrice, reason);
+    positions.delete(position.tradeId);
+    exitBlockedLogged.delete(position.tradeId);
+
+    const profit = (exitPrice - position.buyPrice) * position.size;
+    console.log(
+      `\n<<< VIRTUAL SELL [${position.strategyId}]: ${position.side} ${position.size} @ avg $${exitPrice.toFixed(4)} ` +
+      `(${reason}, trade #${position.tradeId}) | profit: ${profit >= 0 ? "+" : ""}$${profit.toFixed(2)}`
+    );
   }
+}
 
-  // Determine which side
-  let side: string;
-  if (tokenId === market.upTokenId) {
-    side = "Up";
-  } else if (tokenId === market.downTokenId) {
-    side = "Down";
-  } else {
-    return;
+/** Resolve one market's trades against its winning side. */
+export function resolveMarketTrades(trades: Trade[], winner: "Up" | "Down"): void {
+  let liveClosed = false;
+  for (const trade of trades) {
+    const outcome = trade.side === winner ? "win" : "lose";
+    resolveTrade(trade.id, outcome);
+    positions.delete(trade.id);
+    if (trade.mode === "live") liveClosed = true;
+    const profit = ((outcome === "win" ? 1 : 0) - trade.buy_price) * trade.size;
+    console.log(
+      `\n[Resolve] Trade #${trade.id} [${trade.strategy_id}] (${trade.side}): ${outcome.toUpperCase()} | profit: ${profit >= 0 ? "+" : ""}$${profit.toFixed(2)}`
+    );
   }
+  // Live results feed the risk manager's loss limits
+  if (liveClosed) onLiveTradeClosed();
+}
 
-  // Place virtual trade
-  bettedMarkets.add(market.slug);
-  const tradeId = insertTrade(
-    market.slug,
-    market.conditionId,
-    tokenId,
-    side,
-    price
-  );
+/** Check every open trade's market once and resolve the ones that have settled. */
+export async function resolveOpenTrades(): Promise<void> {
+  const openTrades = getOpenTrades();
+  if (openTrades.length === 0) return;
+
+  // Group by slug
+  const bySlug = new Map<string, Trade[]>();
+  for (const trade of openTrades) {
+    const list = bySlug.get(trade.market_slug) ?? [];
+    list.push(trade);
+    bySlug.set(trade.market_slug, list);
+  }
 
-  console.log(
-    `\n>>> VIRTUAL BUY: ${side} @ $${price.toFixed(2)} (trade #${tradeId}, market: ${market.slug})`
-  );
+  for (const [slug, trades] of bySlug) {
+    const winner = await checkResolution(slug);
+    if (!winner) continue;
+    resolveMarketTrades(trades, winner);
+  }
 }
 
 /** Start the background resolution loop. Runs every 10s, resolving any open trades. */
@@ -104,30 +359,7 @@ export function startResolutionLoop(): void {
 
   resolutionTimer = setInterval(async () => {
     try {
-      const openTrades = getOpenTrades();
-      if (openTrades.length === 0) return;
-
-      // Group by slug
-      const bySlug = new Map<string, typeof openTrades>();
-      for (const trade of openTrades) {
-        const list = bySlug.get(trade.market_slug) ?? [];
-        list.push(trade);
-        bySlug.set(trade.market_slug, list);
-      }
-
-      for (const [slug, trades] of bySlug) {
-        const winner = await checkResolution(slug);
-        if (!winner) continue;
-
-        for (const trade of trades) {
-          const outcome = trade.side === winner ? "win" : "lose";
-          resolveTrade(trade.id, outcome);
-          const profit = outcome === "win" ? 1 - trade.buy_price : -trade.buy_price;
-          console.log(
-            `\n[Resolve] Trade #${trade.id} (${trade.side}): ${outcome.toUpperCase()} | profit: ${profit >= 0 ? "+" : ""}$${profit.toFixed(2)}`
-          );
-        }
-      }
+      await resolveOpenTrades();
     } catch (err) {
       console.error("[Resolve] Error in resolution loop:", err);
     }
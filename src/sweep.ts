@@ -0,0 +1,242 @@
+import type { Asset, Candle } from "./candles.js";
+import type { WindowDuration } from "./market.js";
+import {
+  aggregateToWindows,
+  backtestWindows,
+  DEFAULT_BACKTEST_CONFIG,
+  type BacktestConfig,
+  type BacktestResult,
+} from "./backtest.js";
+import { insertSweep, getRecentSweeps } from "./db.js";
+
+/** A named hour or day-of-week filter; `values` is null for "all". */
+export interface SweepFilter {
+  label: string;
+  values: number[] | null;
+}
+
+export interface SweepRanges {
+  buyPrices: number[];
+  lookaheadCandles: number[];
+  minMoves: number[];
+  hours: SweepFilter[];
+  days: SweepFilter[];
+}
+
+/**
+ * The summary of one combination's backtest. Equity curves and per-day/hour breakdowns are
+ * dropped as each backtest finishes, so a large grid doesn't hold them all in memory.
+ */
+export interface SweepResult extends Pick<
+  BacktestResult,
+  "asset" | "duration" | "config" | "tradesEntered" | "wins" | "winRate" | "totalProfit" | "maxDrawdown" | "maxConsecutiveLosses"
+> {
+  hoursLabel: string;
+  daysLabel: string;
+}
+
+const DAY_NAMES = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+
+/** Parse "start:end:step" (inclusive) or a comma-separated list of numbers. */
+export function parseNumberRange(spec: string): number[] {
+  if (spec.includes(":")) {
+    const [start, end, step] = spec.split(":").map(Number);
+    if ([start, end, step].some(isNaN) || step <= 0 || end < start) {
+      throw new Error(`Invalid range "${spec}". Expected start:end:step, e.g. 0.55:0.70:0.05`);
+    }
+    const count = Math.floor((end - start) / step + 1e-9) + 1;
+    // Round away float drift so 0.55 + 3 * 0.05 prints and stores as 0.7
+    return Array.from({ length: count }, (_, i) => Math.round((start + i * step) * 1e6) / 1e6);
+  }
+
+  const values = spec.split(",").map((v) => v.trim()).filter(Boolean).map(Number);
+  if (values.length === 0 || values.some(isNaN)) {
+    throw new Error(`Invalid list "${spec}". Expected comma-separated numbers, e.g. 0.55,0.60`);
+  }
+  return [...new Set(values)];
+}
+
+/** Parse comma-separated UTC hour filters: "all", "13" or an inclusive range "8-15" (may wrap, e.g. "22-3"). */
+export function parseHourFilters(spec: string): SweepFilter[] {
+  return spec.split(",").map((s) => s.trim()).filter(Boolean).map((label) => {
+    if (label === "all") return { label, values: null };
+    const [from, to = from] = label.split("-").map(Number);
+    if ([from, to].some((h) => !Number.isInteger(h) || h < 0 || h > 23)) {
+      throw new Error(`Invalid hour filter "${label}". Expected all, an hour 0-23 or a range like 8-15`);
+    }
+    const values: number[] = [];
+    for (let h = from; ; h = (h + 1) % 24) {
+      values.push(h);
+      if (h === to) break;
+    }
+    return { label, values };
+  });
+}
+
+/** Parse comma-separated day filters: "all", "weekdays", "weekends", a day "mon" or a range "mon-thu". */
+export function parseDayFilters(spec: string): SweepFilter[] {
+  return spec.split(",").map((s) => s.trim().toLowerCase()).filter(Boolean).map((label) => {
+    if (label === "all") return { label, values: null };
+    if (label === "weekdays") return { label, values: [1, 2, 3, 4, 5] };
+    if (label === "weekends") return { label, values: [0, 6] };
+    const [from, to = from] = label.split("-").map((d) => DAY_NAMES.indexOf(d));
+    if (from === -1 || to === -1) {
+      throw new Error(`Invalid day filter "${label}". Expected all, weekdays, weekends, a day like mon or a range like mon-thu`);
+    }
+    const values: number[] = [];
+    for (let d = from; ; d = (d + 1) % 7) {
+      values.push(d);
+      if (d === to) break;
+    }
+    return { label, values };
+  });
+}
+
+export function countCombinations(ranges: SweepRanges): number {
+  return ranges.buyPrices.length * ranges.lookaheadCandles.length * ranges.minMoves.length *
+    ranges.hours.length * ranges.days.length;
+}
+
+/** Backtest every combination of the ranges for every asset, aggregating each asset's windows once. */
+export function runSweep(
+  candleData: Map<Asset, Candle[]>,
+  duration: WindowDuration,
+  ranges: SweepRanges,
+  bankroll: number = DEFAULT_BACKTEST_CONFIG.bankroll
+): SweepResult[] {
+  const results: SweepResult[] = [];
+
+  for (const [asset, candles] of candleData) {
+    const windows = aggregateToWindows(candles, duration);
+
+    for (const buyPrice of ranges.buyPrices) {
+      for (const lookaheadCandles of ranges.lookaheadCandles) {
+        for (const minMove of ranges.minMoves) {
+          for (const hours of ranges.hours) {
+            for (const days of ranges.days) {
+              const config: BacktestConfig = {
+                buyPrice,
+                lookaheadCandles,
+                minMove,
+                hours: hours.values,
+                days: days.values,
+                bankroll,
+              };
+              const r = backtestWindows(asset, duration, windows, config);
+              results.push({
+                asset: r.asset,
+                duration: r.duration,
+                config: r.config,
+                tradesEntered: r.tradesEntered,
+                wins: r.wins,
+                winRate: r.winRate,
+                totalProfit: r.totalProfit,
+                maxDrawdown: r.maxDrawdown,
+                maxConsecutiveLosses: r.maxConsecutiveLosses,
+                hoursLabel: hours.label,
+                daysLabel: days.label,
+              });
+            }
+          }
+        }
+      }
+    }
+  }
+
+  // Rank by total P&L, then win rate, then the shallower drawdown
+  return results.sort((a, b) =>
+    b.totalProfit - a.totalProfit ||
+    b.winRate - a.winRate ||
+    a.maxDrawdown - b.maxDrawdown
+  );
+}
+
+/** Save a ranked sweep to SQLite. Returns the sweep id. */
+export function saveSweep(
+  results: SweepResult[],
+  duration: WindowDuration,
+  candleDays: number,
+  ranges: SweepRanges
+): number {
+  const assets = [...new Set(results.map((r) => r.asset))];
+  return insertSweep(
+    {
+      duration,
+      assets: assets.join(","),
+      candle_days: candleDays,
+      ranges: JSON.stringify({
+        buyPrices: ranges.buyPrices,
+        lookaheadCandles: ranges.lookaheadCandles,
+        minMoves: ranges.minMoves,
+        hours: ranges.hours.map((f) => f.label),
+        days: ranges.days.map((f) => f.label),
+      }),
+      combinations: countCombinations(ranges),
+    },
+    results.map((r) => ({
+      asset: r.asset,
+      buy_price: r.config.buyPrice,
+      lookahead_candles: r.config.lookaheadCandles,
+      min_move: r.config.minMove,
+      hours: r.hoursLabel,
+      days: r.daysLabel,
+      trades: r.tradesEntered,
+      wins: r.wins,
+      win_rate: r.winRate,
+      total_profit: r.totalProfit,
+      max_drawdown: r.maxDrawdown,
+      max_consecutive_losses: r.maxConsecutiveLosses,
+    }))
+  );
+}
+
+export function printSweepResults(results: SweepResult[], ranges: SweepRanges, top = 20): void {
+  const durations = [...new Set(results.map((r) => r.duration))].join(", ");
+  console.log(`\n=== Backtest Sweep (${durations || "no"} windows) ===\n`);
+  console.log(
+    `${countCombinations(ranges)} combinations × ${new Set(results.map((r) => r.asset)).size} asset(s) = ` +
+    `${results.length} backtests, showing top ${Math.min(top, results.length)}\n`
+  );
+
+  const header =
+    "Rank | Asset |  Buy | Look | Min Move | Hours  | Days     | Trades | Win Rate | Total P&L |  Max DD | Max Consec L";
+  console.log(header);
+  console.log("-".repeat(header.length));
+
+  results.slice(0, top).forEach((r, i) => {
+    const pnlSign = r.totalProfit >= 0 ? "+" : "";
+    console.log(
+      `${String(i + 1).padStart(4)} | ${r.asset.padEnd(5)} | ${r.config.buyPrice.toFixed(2)} | ` +
+      `${String(r.config.lookaheadCandles).padStart(4)} | ${(r.config.minMove * 100).toFixed(3).padStart(7)}% | ` +
+      `${r.hoursLabel.padEnd(6)} | ${r.daysLabel.padEnd(8)} | ${String(r.tradesEntered).padStart(6)} | ` +
+      `${r.winRate.toFixed(1).padStart(7)}% | ${pnlSign}$${r.totalProfit.toFixed(2).padStart(7)} | ` +
+      `$${r.maxDrawdown.toFixed(2).padStart(6)} | ${String(r.maxConsecutiveLosses).padStart(12)}`
+    );
+  });
+  console.log("");
+}
+
+/** Print the best configuration of recent sweeps so runs can be compared over time. */
+export function printRecentSweeps(limit = 5): void {
+  const sweeps = getRecentSweeps(limit);
+  if (sweeps.length === 0) return;
+
+  console.log("--- Recent Sweeps (best configuration each) ---\n");
+  const header = "Sweep | Created             | Dur | Assets          | Combos | Best                                     | Total P&L | Win Rate";
+  console.log(header);
+  console.log("-".repeat(header.length));
+  for (const s of sweeps) {
+    const b = s.best;
+    const best = b
+      ? `${b.asset} ${b.buy_price.toFixed(2)} look=${b.lookahead_candles} move=${(b.min_move * 100).toFixed(2)}% ${b.hours}/${b.days}`
+      : "-";
+    const pnl = b ? `${b.total_profit >= 0 ? "+" : ""}$${b.total_profit.toFixed(2)}` : "-";
+    const winRate = b ? `${b.win_rate.toFixed(1)}%` : "-";
+    console.log(
+      `${String(s.id).padStart(5)} | ${s.created_at.padEnd(19)} | ${s.duration.padEnd(3)} | ` +
+      `${s.assets.padEnd(15)} | ${String(s.combinations).padStart(6)} | ${best.padEnd(40)} | ` +
+      `${pnl.padStart(9)} | ${winRate.padStart(8)}`
+    );
+  }
+  console.log("");
+}
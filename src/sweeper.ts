@@ -0,0 +1,116 @@
+import { getStaleOpenTrades, deferTradeResolution, timeoutTrade, type Trade } from "./db.js";
+import { checkResolution, getMarketEndTime } from "./market.js";
+import { resolveMarketTrades } from "./strategy.js";
+import { now } from "./clock.js";
+
+// The 10s resolution loop covers trades opened in the last hour; this picks up everything older
+const STALE_AFTER_MS = 60 * 60 * 1000;
+const SWEEP_INTERVAL = 5 * 60 * 1000;
+const RETRY_BASE_MS = 60 * 1000;
+const RETRY_MAX_MS = 60 * 60 * 1000;
+
+// Give up on a market this long after it ended
+export const DEFAULT_TRADE_TIMEOUT_MS = 24 * 60 * 60 * 1000;
+let tradeTimeoutMs = DEFAULT_TRADE_TIMEOUT_MS;
+
+let sweepTimer: ReturnType<typeof setInterval> | null = null;
+let sweeping = false;
+
+export function setTradeTimeout(ms: number): void {
+  tradeTimeoutMs = ms;
+}
+
+/** Retry delay after `attempts` failed lookups: 1m, 2m, 4m, ... capped at 1h. */
+function retryDelay(attempts: number): number {
+  return Math.min(RETRY_MAX_MS, RETRY_BASE_MS * 2 ** attempts);
+}
+
+export interface SweepSummary {
+  checked: number;  // markets looked up
+  resolved: number; // trades resolved win/lose
+  timedOut: number; // trades given up on
+  deferred: number; // trades rescheduled with backoff
+}
+
+/** Resolve old pending trades once: settle what Gamma reports, back off the rest, time out the hopeless. */
+export async function sweepStaleTrades(): Promise<SweepSummary> {
+  const summary: SweepSummary = { checked: 0, resolved: 0, timedOut: 0, deferred: 0 };
+  const stale = getStaleOpenTrades(STALE_AFTER_MS);
+  if (stale.length === 0) return summary;
+
+  const bySlug = new Map<string, Trade[]>();
+  for (const trade of stale) {
+    const list = bySlug.get(trade.market_slug) ?? [];
+    list.push(trade);
+    bySlug.set(trade.market_slug, list);
+  }
+
+  for (const [slug, trades] of bySlug) {
+    summary.checked++;
+    let winner: "Up" | "Down" | null = null;
+    let failure = "market not resolved";
+    try {
+      winner = await checkResolution(slug);
+    } catch (err) {
+      failure = `lookup failed: ${(err as Error).message}`;
+    }
+
+    if (winner) {
+      resolveMarketTrades(trades, winner);
+      summary.resolved += trades.length;
+      continue;
+    }
+
+    // Age counts from the market's end; fall back to the trade's own time for unparseable slugs
+    const endTime = getMarketEndTime(slug);
+    for (const trade of trades) {
+      const since = isNaN(endTime) ? Date.parse(`${trade.created_at}Z`) : endTime;
+      if (now() - since >= tradeTimeoutMs) {
+        const attempts = trade.resolve_attempts + 1;
+        const reason =
+          `no result ${Math.round((now() - since) / 3_600_000)}h after market end ` +
+          `(${attempts} attempt${attempts === 1 ? "" : "s"}, last: ${failure})`;
+        timeoutTrade(trade.id, reason);
+        summary.timedOut++;
+        console.log(`\n[Sweeper] Trade #${trade.id} [${trade.strategy_id}] (${slug}): TIMEOUT — ${reason}`);
+      } else {
+        deferTradeResolution(trade.id, now() + retryDelay(trade.resolve_attempts));
+        summary.deferred++;
+      }
+    }
+  }
+
+  if (summary.resolved + summary.timedOut > 0) {
+    console.log(
+      `[Sweeper] ${summary.checked} stale market(s): ${summary.resolved} trade(s) resolved, ` +
+      `${summary.timedOut} timed out, ${summary.deferred} retrying later`
+    );
+  }
+  return summary;
+}
+
+/** Sweep now, then every 5 minutes. */
+export function startStaleSweeper(): void {
+  if (sweepTimer) return; // already running
+
+  const run = async () => {
+    if (sweeping) return; // a slow sweep is still going
+    sweeping = true;
+    try {
+      await sweepStaleTrades();
+    } catch (err) {
+      console.error("[Sweeper] Error sweeping stale trades:", err);
+    } finally {
+      sweeping = false;
+    }
+  };
+  void run();
+  sweepTimer = setInterval(run, SWEEP_INTERVAL);
+}
+
+export function stopStaleSweeper(): void {
+  if (sweepTimer) {
+    clearInterval(sweepTimer);
+    sweepTimer = null;
+  }
+}
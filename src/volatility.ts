@@ -1,5 +1,4 @@
 import type { Asset, Candle } from "./candles.js";
-import { ASSETS } from "./candles.js";
 
 // VolMatrix: asset → hour (0-23) → day-of-week (0=Sun..6=Sat) → avg range%
 export type VolMatrix = Map<Asset, number[][]>;
@@ -11,10 +10,7 @@ export function buildVolMatrix(
 ): VolMatrix {
   const matrix: VolMatrix = new Map();
 
-  for (const asset of ASSETS) {
-    const candles = candleData.get(asset);
-    if (!candles) continue;
-
+  for (const [asset, candles] of candleData) {
     // 24 hours × 7 days: [sum, count]
     const sums: number[][] = Array.from({ length: 24 }, () =>
       Array(7).fill(0)
@@ -0,0 +1,253 @@
+import type { Asset, Candle } from "./candles.js";
+import type { WindowDuration } from "./market.js";
+import {
+  aggregateToWindows,
+  backtestWindows,
+  simulateWindow,
+  DEFAULT_BACKTEST_CONFIG,
+  type MarketWindow,
+} from "./backtest.js";
+import { shouldTrade, shouldTradeCell, MIN_SAMPLES, type FilterMatrix } from "./filter.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DAY_NAMES = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+interface SideStats {
+  trades: number;
+  wins: number;
+  profit: number;
+}
+
+/** One training window and the out-of-sample period right after it. */
+export interface WalkForwardFold {
+  testStart: number;
+  testEnd: number;
+  trainTrades: number;
+  unfiltered: SideStats;
+  filtered: SideStats;   // trades the filter let through
+  blocked: SideStats;    // trades the filter skipped: cells below the win-rate threshold
+  unproven: SideStats;   // trades let through only because the cell had < MIN_SAMPLES
+}
+
+export interface WalkForwardResult {
+  asset: Asset;
+  duration: WindowDuration;
+  trainDays: number;
+  testDays: number;
+  folds: WalkForwardFold[];
+  // Cell stability across consecutive training windows (24 × 7, null = never had enough samples)
+  flipRateByHourDay: (number | null)[][];  // share of fold-to-fold changes where the decision flipped
+  winRateDriftByHourDay: (number | null)[][]; // mean absolute change in training win rate, in points
+  avgSamplesPerCell: number;
+  provenCellShare: number; // share of cell-folds with at least MIN_SAMPLES trades
+}
+
+function emptyStats(): SideStats {
+  return { trades: 0, wins: 0, profit: 0 };
+}
+
+function addTrade(stats: SideStats, isWin: boolean, profit: number): void {
+  stats.trades++;
+  if (isWin) stats.wins++;
+  stats.profit += profit;
+}
+
+function sumStats(list: SideStats[]): SideStats {
+  return list.reduce(
+    (acc, s) => ({ trades: acc.trades + s.trades, wins: acc.wins + s.wins, profit: acc.profit + s.profit }),
+    emptyStats()
+  );
+}
+
+function windowsBetween(windows: MarketWindow[], from: number, to: number): MarketWindow[] {
+  return windows.filter((w) => w.startTime >= from && w.startTime < to);
+}
+
+/**
+ * Walk-forward test of the hour/day filter: build the matrix from `trainDays` of windows,
+ * apply shouldTrade to the next `testDays`, then roll forward by `testDays` and repeat.
+ */
+export function runWalkForward(
+  asset: Asset,
+  candles: Candle[],
+  duration: WindowDuration,
+  trainDays: number,
+  testDays: number
+): WalkForwardResult {
+  const config = DEFAULT_BACKTEST_CONFIG;
+  const windows = aggregateToWindows(candles, duration);
+  const folds: WalkForwardFold[] = [];
+  const matrices: FilterMatrix[] = [];
+
+  if (windows.length > 0) {
+    // Align folds to UTC midnight so each test period covers whole days
+    const firstDay = Math.floor(windows[0].startTime / DAY_MS) * DAY_MS;
+    const lastStart = windows[windows.length - 1].startTime;
+
+    for (let testStart = firstDay + trainDays * DAY_MS; testStart <= lastStart; testStart += testDays * DAY_MS) {
+      const testEnd = testStart + testDays * DAY_MS;
+      const train = backtestWindows(asset, duration, windowsBetween(windows, testStart - trainDays * DAY_MS, testStart), config);
+      const matrix: FilterMatrix = {
+        winsByHourDay: train.winsByHourDay,
+        tradesByHourDay: train.tradesByHourDay,
+      };
+
+      const fold: WalkForwardFold = {
+        testStart,
+        testEnd,
+        trainTrades: train.tradesEntered,
+        unfiltered: emptyStats(),
+        filtered: emptyStats(),
+        blocked: emptyStats(),
+        unproven: emptyStats(),
+      };
+
+      for (const w of windowsBetween(windows, testStart, testEnd)) {
+        const outcome = simulateWindow(w, config);
+        if (!outcome) continue;
+        const { isWin, profit } = outcome;
+        addTrade(fold.unfiltered, isWin, profit);
+
+        if (!shouldTrade(matrix, w.startTime)) {
+          addTrade(fold.blocked, isWin, profit);
+          continue;
+        }
+        addTrade(fold.filtered, isWin, profit);
+        const dt = new Date(w.startTime);
+        if (matrix.tradesByHourDay[dt.getUTCHours()][dt.getUTCDay()] < MIN_SAMPLES) {
+          addTrade(fold.unproven, isWin, profit);
+        }
+      }
+
+      folds.push(fold);
+      matrices.push(matrix);
+    }
+  }
+
+  // Cell stability: compare each training matrix with the previous one
+  const flipRateByHourDay: (number | null)[][] = Array.from({ length: 24 }, () => Array(7).fill(null));
+  const winRateDriftByHourDay: (number | null)[][] = Array.from({ length: 24 }, () => Array(7).fill(null));
+  let samples = 0;
+  let provenCells = 0;
+
+  for (let h = 0; h < 24; h++) {
+    for (let d = 0; d < 7; d++) {
+      let flips = 0;
+      let drift = 0;
+      let pairs = 0;
+      for (let i = 0; i < matrices.length; i++) {
+        const trades = matrices[i].tradesByHourDay[h][d];
+        samples += trades;
+        if (trades >= MIN_SAMPLES) provenCells++;
+        if (i === 0) continue;
+
+        // Only pairs where both windows had enough samples to make a real decision
+        const prevTrades = matrices[i - 1].tradesByHourDay[h][d];
+        if (trades < MIN_SAMPLES || prevTrades < MIN_SAMPLES) continue;
+        pairs++;
+        if (shouldTradeCell(matrices[i], h, d) !== shouldTradeCell(matrices[i - 1], h, d)) flips++;
+        const rate = matrices[i].winsByHourDay[h][d] / trades;
+        const prevRate = matrices[i - 1].winsByHourDay[h][d] / prevTrades;
+        drift += Math.abs(rate - prevRate) * 100;
+      }
+      if (pairs > 0) {
+        flipRateByHourDay[h][d] = flips / pairs;
+        winRateDriftByHourDay[h][d] = drift / pairs;
+      }
+    }
+  }
+
+  const cellFolds = matrices.length * 24 * 7;
+  return {
+    asset,
+    duration,
+    trainDays,
+    testDays,
+    folds,
+    flipRateByHourDay,
+    winRateDriftByHourDay,
+    avgSamplesPerCell: cellFolds > 0 ? samples / cellFolds : 0,
+    provenCellShare: cellFolds > 0 ? provenCells / cellFolds : 0,
+  };
+}
+
+function formatStats(s: SideStats): string {
+  const winRate = s.trades > 0 ? `${((s.wins / s.trades) * 100).toFixed(1)}%` : "N/A";
+  const sign = s.profit >= 0 ? "+" : "";
+  return `${String(s.trades).padStart(5)} ${winRate.padStart(6)} ${`${sign}$${s.profit.toFixed(2)}`.padStart(9)}`;
+}
+
+export function printWalkForwardResults(results: WalkForwardResult[]): void {
+  for (const r of results) {
+    console.log(
+      `\n=== Walk-Forward Filter Validation: ${r.asset} ${r.duration} ` +
+      `(train ${r.trainDays}d, test ${r.testDays}d, ${r.folds.length} folds) ===\n`
+    );
+    if (r.folds.length === 0) {
+      console.log(`Not enough data: need more than ${r.trainDays} days of candles\n`);
+      continue;
+    }
+
+    const header =
+      "Test period              | Train | Unfiltered: n   win     P&L | Filtered: n   win     P&L | Blocked: n   win     P&L";
+    console.log(header);
+    console.log("-".repeat(header.length));
+    for (const f of r.folds) {
+      const period = `${new Date(f.testStart).toISOString().slice(0, 10)} → ${new Date(f.testEnd - 1).toISOString().slice(0, 10)}`;
+      console.log(
+        `${period.padEnd(24)} | ${String(f.trainTrades).padStart(5)} | ` +
+        `${" ".repeat(10)}${formatStats(f.unfiltered)} | ` +
+        `${" ".repeat(8)}${formatStats(f.filtered)} | ` +
+        `${" ".repeat(7)}${formatStats(f.blocked)}`
+      );
+    }
+
+    const unfiltered = sumStats(r.folds.map((f) => f.unfiltered));
+    const filtered = sumStats(r.folds.map((f) => f.filtered));
+    const blocked = sumStats(r.folds.map((f) => f.blocked));
+    const unproven = sumStats(r.folds.map((f) => f.unproven));
+    console.log("-".repeat(header.length));
+    console.log(
+      `${"ALL".padEnd(24)} | ${" ".repeat(5)} | ` +
+      `${" ".repeat(10)}${formatStats(unfiltered)} | ` +
+      `${" ".repeat(8)}${formatStats(filtered)} | ` +
+      `${" ".repeat(7)}${formatStats(blocked)}`
+    );
+
+    const edge = filtered.profit - unfiltered.profit;
+    const folds = r.folds.filter((f) => f.unfiltered.trades > 0);
+    const foldsHelped = folds.filter((f) => f.filtered.profit > f.unfiltered.profit).length;
+    console.log(`\nOut-of-sample P&L, filtered vs unfiltered: ${edge >= 0 ? "+" : ""}$${edge.toFixed(2)}`);
+    console.log(`Filter improved P&L in ${foldsHelped} of ${folds.length} test periods`);
+    console.log(`Trades let through on cells with < ${MIN_SAMPLES} samples: ${formatStats(unproven).trim()}`);
+    if (blocked.trades > 0 && filtered.trades > 0) {
+      // A filter with signal blocks trades that go on to lose more often than the ones it allows
+      const gap = (filtered.wins / filtered.trades - blocked.wins / blocked.trades) * 100;
+      console.log(`Win rate of allowed minus blocked trades: ${gap >= 0 ? "+" : ""}${gap.toFixed(1)} points`);
+    }
+
+    // Stability of the training cells from one window to the next
+    const flips = r.flipRateByHourDay.flat().filter((v): v is number => v !== null);
+    const drifts = r.winRateDriftByHourDay.flat().filter((v): v is number => v !== null);
+    const avg = (xs: number[]) => xs.reduce((a, b) => a + b, 0) / xs.length;
+    console.log(`\nAvg training samples per cell: ${r.avgSamplesPerCell.toFixed(1)}`);
+    console.log(`Cells with >= ${MIN_SAMPLES} samples: ${(r.provenCellShare * 100).toFixed(1)}%`);
+    if (flips.length > 0) {
+      console.log(`Avg decision flip rate between training windows: ${(avg(flips) * 100).toFixed(1)}%`);
+      console.log(`Avg win-rate drift between training windows: ${avg(drifts).toFixed(1)} points`);
+    }
+
+    console.log(`\n--- ${r.asset} Decision Flip Rate (%) between consecutive training windows ---\n`);
+    const mHeader = "Hour  | " + DAY_NAMES.map((d) => d.padStart(7)).join(" ");
+    console.log(mHeader);
+    console.log("-".repeat(mHeader.length));
+    for (let h = 0; h < 24; h++) {
+      const cells = DAY_NAMES.map((_, d) => {
+        const v = r.flipRateByHourDay[h][d];
+        return v === null ? "    N/A" : `${(v * 100).toFixed(0)}`.padStart(6) + "%";
+      });
+      console.log(`${String(h).padStart(2)}:00 | ${cells.join(" ")}`);
+    }
+  }
+  console.log("");
+}
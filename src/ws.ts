@@ -1,28 +1,177 @@
 import WebSocket from "ws";
+import {
+  createOrderBook,
+  applyBookSnapshot,
+  applyPriceChange,
+  getBookView,
+  type OrderBook,
+  type BookView,
+} from "./orderbook.js";
+import { MARKET_WS_URL, USER_WS_URL } from "./endpoints.js";
+import { now } from "./clock.js";
 
-const WS_URL = "wss://ws-subscriptions-clob.polymarket.com/ws/market";
+/**
+ * `price` is the best bid (or last trade); `book` is null until a snapshot
+ * arrives. `receivedAt` is when the message behind this price arrived (Unix ms).
+ */
+export type PriceCallback = (tokenId: string, price: number, book: BookView | null, receivedAt: number) => void;
 
-export type PriceCallback = (tokenId: string, price: number) => void;
+/** Receives every market event for one token, unmodified apart from splitting price_changes by token. */
+export type RawEventCallback = (tokenId: string, eventType: string, msg: unknown) => void;
 
-export function connectMarketWs(
-  assetIds: string[],
-  onPrice: PriceCallback
-): { close: () => void } {
+/** Connection and gap counters for one socket, since it was created. */
+export interface FeedStats {
+  connects: number;
+  disconnects: number;          // includes forced stale reconnects
+  staleReconnects: number;      // reconnects forced because the feed went silent
+  resyncs: number;              // books resubscribed after a failed consistency check
+  hashMismatches: number;       // snapshots whose hash bookHash didn't reproduce (logged, not acted on)
+  gaps: number;                 // outages that have ended with data flowing again
+  lastGapMs: number | null;     // last message before an outage → first message after
+  maxGapMs: number | null;
+  lastMessageAt: number | null; // Unix ms
+}
+
+const RECONNECT_BASE_MS = 1000;
+const RECONNECT_MAX_MS = 30_000;
+const HEALTH_CHECK_INTERVAL = 5000;
+export const DEFAULT_STALE_AFTER_MS = 30_000;
+
+/** Exponential backoff with jitter: 50–100% of base × 2^attempt, capped. */
+function reconnectDelay(attempt: number): number {
+  const ceiling = Math.min(RECONNECT_MAX_MS, RECONNECT_BASE_MS * 2 ** attempt);
+  return Math.round(ceiling * (0.5 + Math.random() * 0.5));
+}
+
+/** Tracks one socket's counters, gaps and reconnect attempts. */
+function createConnectionHealth() {
+  const stats: FeedStats = {
+    connects: 0,
+    disconnects: 0,
+    staleReconnects: 0,
+    resyncs: 0,
+    hashMismatches: 0,
+    gaps: 0,
+    lastGapMs: null,
+    maxGapMs: null,
+    lastMessageAt: null,
+  };
+  let attempt = 0;
+  let gapStartedAt: number | null = null;
+  let awaitingFirstMessage = false;
+
+  return {
+    stats,
+    opened() {
+      stats.connects++;
+      awaitingFirstMessage = true;
+    },
+    message() {
+      const t = now();
+      // Only a connection that delivers data resets the backoff
+      if (awaitingFirstMessage) {
+        awaitingFirstMessage = false;
+        attempt = 0;
+      }
+      if (gapStartedAt !== null) {
+        const gap = t - gapStartedAt;
+        stats.gaps++;
+        stats.lastGapMs = gap;
+        stats.maxGapMs = Math.max(stats.maxGapMs ?? 0, gap);
+        gapStartedAt = null;
+      }
+      stats.lastMessageAt = t;
+    },
+    /** Record an unwanted close and return how long to wait before reconnecting. */
+    closed(): number {
+      stats.disconnects++;
+      gapStartedAt ??= stats.lastMessageAt ?? now();
+      return reconnectDelay(attempt++);
+    },
+  };
+}
+
+/** One long-lived market connection shared by every window and consumer. */
+export interface MarketFeed {
+  /**
+   * Subscribe to tokens until `expiresAt` (Unix ms), keeping their books in
+   * sync even with nobody watching. Subscribing again extends the expiry.
+   */
+  subscribe: (assetIds: string[], expiresAt: number) => void;
+  /** Drop tokens and their books now. */
+  unsubscribe: (assetIds: string[]) => void;
+  /**
+   * Receive events for subscribed tokens. Tokens that already have a book get
+   * it replayed straight away. Returns a function that stops listening.
+   */
+  watch: (assetIds: string[], onPrice: PriceCallback, onRawEvent?: RawEventCallback) => () => void;
+  /** When a message for this token last arrived (Unix ms), or null. */
+  lastMessageAt: (tokenId: string) => number | null;
+  stats: () => FeedStats;
+  close: () => void;
+}
+
+export interface MarketFeedOptions {
+  /** Reconnect when no message at all has arrived for this long while subscribed. */
+  staleAfterMs?: number;
+}
+
+interface FeedListener {
+  onPrice: PriceCallback;
+  onRawEvent?: RawEventCallback;
+}
+
+const EXPIRY_SWEEP_INTERVAL = 10_000;
+
+/**
+ * Connect the market channel once and change its subscriptions as windows
+ * come and go, so the next window's tokens can be subscribed before it opens.
+ */
+export function connectMarketFeed(options: MarketFeedOptions = {}): MarketFeed {
+  const staleAfterMs = options.staleAfterMs ?? DEFAULT_STALE_AFTER_MS;
   let ws: WebSocket;
   let alive = true;
+  let subscribedOnSocket = false; // the first message on a socket must be the full subscription
+  let lastActivity = now();       // last message, connect or new subscription — the staleness baseline
   let pingInterval: ReturnType<typeof setInterval>;
+  const health = createConnectionHealth();
+  const expiries = new Map<string, number>();    // tokenId → Unix ms to drop it
+  const tokenMessages = new Map<string, number>(); // tokenId → last message Unix ms
+  const books = new Map<string, OrderBook>();
+  const listeners = new Map<string, Set<FeedListener>>();
+
+  function sendSubscription(assetIds: string[], operation: "subscribe" | "unsubscribe") {
+    if (assetIds.length === 0 || ws.readyState !== WebSocket.OPEN) return;
+    if (!subscribedOnSocket) {
+      if (operation === "unsubscribe") return;
+      ws.send(JSON.stringify({ assets_ids: assetIds, type: "market" }));
+      subscribedOnSocket = true;
+    } else {
+      ws.send(JSON.stringify({ assets_ids: assetIds, operation }));
+    }
+  }
+
+  const emitPrice: PriceCallback = (tokenId, price, book, receivedAt) => {
+    tokenMessages.set(tokenId, receivedAt);
+    for (const listener of listeners.get(tokenId) ?? []) listener.onPrice(tokenId, price, book, receivedAt);
+  };
+
+  const emitRaw: RawEventCallback = (tokenId, eventType, msg) => {
+    tokenMessages.set(tokenId, now());
+    for (const listener of listeners.get(tokenId) ?? []) listener.onRawEvent?.(tokenId, eventType, msg);
+  };
 
   function connect() {
-    ws = new WebSocket(WS_URL);
+    ws = new WebSocket(MARKET_WS_URL);
+    subscribedOnSocket = false;
 
     ws.on("open", () => {
       console.log("[WS] Connected");
-      const sub = {
-        assets_ids: assetIds,
-        type: "market",
-      };
-      ws.send(JSON.stringify(sub));
-      console.log("[WS] Subscribed to", assetIds);
+      health.opened();
+      lastActivity = now();
+      books.clear(); // the server sends fresh snapshots on subscribe
+      sendSubscription([...expiries.keys()], "subscribe");
+      if (expiries.size > 0) console.log(`[WS] Subscribed to ${expiries.size} tokens`);
 
       // Keep alive with pings
       pingInterval = setInterval(() => {
@@ -33,39 +182,27 @@ export function connectMarketWs(
     });
 
     ws.on("message", (raw) => {
+      health.message();
+      lastActivity = now();
       try {
         const parsed = JSON.parse(raw.toString());
         const msgs: any[] = Array.isArray(parsed) ? parsed : [parsed];
 
         for (const msg of msgs) {
-          // Handle price_changes wrapper: {price_changes: [{asset_id, price, best_bid, best_ask, ...}]}
-          if (Array.isArray(msg.price_changes)) {
-            for (const pc of msg.price_changes) {
-              const price = parseFloat(pc.best_bid ?? pc.price);
-              if (pc.asset_id && !isNaN(price)) {
-                onPrice(pc.asset_id, price);
-              }
-            }
-            continue;
-          }
+          emitRawEvents(msg, emitRaw);
 
-          // Handle last_trade_price events
-          if (msg.event_type === "last_trade_price" && msg.asset_id && msg.price) {
-            const price = parseFloat(msg.price);
-            if (!isNaN(price)) {
-              onPrice(msg.asset_id, price);
-            }
-          }
-
-          // Handle book snapshot — extract best bid price (no event_type field in actual snapshots)
-          if (msg.asset_id && (msg.bids || msg.asks)) {
-            const bestBid = msg.bids?.[0];
-            if (bestBid?.price) {
-              const price = parseFloat(bestBid.price);
-              if (!isNaN(price)) {
-                onPrice(msg.asset_id, price);
-              }
+          const desynced = dispatchMarketMessage(msg, emitPrice, books, now(), (tokenId) => {
+            if (health.stats.hashMismatches++ === 0) {
+              console.log(`[WS] Snapshot hash mismatch for ${tokenId.slice(0, 8)}..., counting further mismatches quietly`);
             }
+          }).filter((tokenId) => expiries.has(tokenId));
+          if (desynced.length > 0) {
+            // Resubscribing makes the server resend snapshots for just these tokens
+            console.log(`[WS] Book out of sync for ${desynced.map((id) => id.slice(0, 8)).join(", ")}..., resubscribing`);
+            health.stats.resyncs++;
+            for (const tokenId of desynced) books.delete(tokenId);
+            sendSubscription(desynced, "unsubscribe");
+            sendSubscription(desynced, "subscribe");
           }
         }
       } catch {
@@ -76,8 +213,9 @@ export function connectMarketWs(
     ws.on("close", () => {
       clearInterval(pingInterval);
       if (alive) {
-        console.log("[WS] Disconnected, reconnecting in 2s...");
-        setTimeout(connect, 2000);
+        const delay = health.closed();
+        console.log(`[WS] Disconnected, reconnecting in ${(delay / 1000).toFixed(1)}s...`);
+        setTimeout(connect, delay);
       }
     });
 
@@ -86,15 +224,285 @@ export function connectMarketWs(
     });
   }
 
+  function unsubscribe(assetIds: string[]) {
+    const dropped = assetIds.filter((id) => expiries.delete(id));
+    for (const tokenId of dropped) {
+      books.delete(tokenId);
+      listeners.delete(tokenId);
+      tokenMessages.delete(tokenId);
+    }
+    sendSubscription(dropped, "unsubscribe");
+  }
+
+  // Drop tokens whose window is over, and books left behind by messages that raced an unsubscribe
+  const sweepInterval = setInterval(() => {
+    const expired = [...expiries].filter(([, expiresAt]) => expiresAt <= now()).map(([id]) => id);
+    if (expired.length > 0) unsubscribe(expired);
+    for (const tokenId of books.keys()) {
+      if (!expiries.has(tokenId)) books.delete(tokenId);
+    }
+    for (const tokenId of tokenMessages.keys()) {
+      if (!expiries.has(tokenId)) tokenMessages.delete(tokenId);
+    }
+  }, EXPIRY_SWEEP_INTERVAL);
+
+  // An open socket that has gone quiet is as bad as a closed one — these markets never sit still
+  const healthInterval = setInterval(() => {
+    if (ws.readyState !== WebSocket.OPEN || expiries.size === 0) return;
+    const silentMs = now() - lastActivity;
+    if (silentMs > staleAfterMs) {
+      console.log(`[WS] No messages for ${Math.round(silentMs / 1000)}s, forcing reconnect`);
+      health.stats.staleReconnects++;
+      ws.terminate();
+    }
+  }, HEALTH_CHECK_INTERVAL);
+
   connect();
 
   return {
+    subscribe(assetIds, expiresAt) {
+      const added = assetIds.filter((id) => !expiries.has(id));
+      for (const id of assetIds) {
+        expiries.set(id, Math.max(expiresAt, expiries.get(id) ?? 0));
+      }
+      if (added.length > 0 && expiries.size === added.length) lastActivity = now(); // first tokens after idling
+      sendSubscription(added, "subscribe");
+    },
+    unsubscribe,
+    watch(assetIds, onPrice, onRawEvent) {
+      const listener: FeedListener = { onPrice, onRawEvent };
+      for (const id of assetIds) {
+        const set = listeners.get(id) ?? new Set();
+        set.add(listener);
+        listeners.set(id, set);
+
+        // Replay the cached book with the time its last message arrived, so its age is honest
+        const book = books.get(id);
+        const view = book ? getBookView(book) : null;
+        const receivedAt = tokenMessages.get(id);
+        if (view?.synced && view.bestBid !== null && receivedAt !== undefined) {
+          onPrice(id, view.bestBid, view, receivedAt);
+        }
+      }
+      return () => {
+        for (const id of assetIds) listeners.get(id)?.delete(listener);
+      };
+    },
+    lastMessageAt(tokenId) {
+      return tokenMessages.get(tokenId) ?? null;
+    },
+    stats() {
+      return { ...health.stats };
+    },
     close() {
       alive = false;
       clearInterval(pingInterval);
+      clearInterval(sweepInterval);
+      clearInterval(healthInterval);
       if (ws.readyState === WebSocket.OPEN || ws.readyState === WebSocket.CONNECTING) {
         ws.close();
       }
     },
   };
 }
+
+/** One-line summary of a socket's counters for logs and shutdown summaries. */
+export function describeFeedStats(stats: FeedStats): string {
+  const gaps = stats.gaps > 0
+    ? `${stats.gaps} gaps (last ${formatGap(stats.lastGapMs)}, longest ${formatGap(stats.maxGapMs)})`
+    : "no gaps";
+  return `${stats.connects} connects, ${stats.disconnects} disconnects (${stats.staleReconnects} stale), ` +
+    `${gaps}, ${stats.resyncs} book resyncs, ${stats.hashMismatches} snapshot hash mismatches`;
+}
+
+function formatGap(ms: number | null): string {
+  return ms === null ? "n/a" : `${(ms / 1000).toFixed(1)}s`;
+}
+
+/** API credentials for the authenticated user channel, as derived by the CLOB client. */
+export interface UserChannelAuth {
+  apiKey: string;
+  secret: string;
+  passphrase: string;
+}
+
+/**
+ * Receives our account's `order` events (PLACEMENT, UPDATE, CANCELLATION) and
+ * `trade` events (MATCHED, MINED, CONFIRMED, ...) as sent by the server.
+ */
+export type UserEventCallback = (msg: any) => void;
+
+export interface UserWsConnection {
+  close: () => void;
+  /** True while subscribed — callers fall back to polling otherwise. */
+  isConnected: () => boolean;
+  stats: () => FeedStats;
+}
+
+/**
+ * Open the authenticated user channel and keep it connected until closed.
+ * Silence is normal here (no orders, no events), so there's no stale check.
+ */
+export function connectUserWs(auth: UserChannelAuth, onEvent: UserEventCallback): UserWsConnection {
+  let ws: WebSocket;
+  let alive = true;
+  let connected = false;
+  let pingInterval: ReturnType<typeof setInterval>;
+  const health = createConnectionHealth();
+
+  function connect() {
+    ws = new WebSocket(USER_WS_URL);
+
+    ws.on("open", () => {
+      console.log("[WS:user] Connected");
+      health.opened();
+      // No market filter — we want every order of ours, whichever market it's in
+      ws.send(JSON.stringify({ auth, markets: [], type: "user" }));
+      connected = true;
+
+      pingInterval = setInterval(() => {
+        if (ws.readyState === WebSocket.OPEN) {
+          ws.ping();
+        }
+      }, 30_000);
+    });
+
+    ws.on("message", (raw) => {
+      health.message();
+      try {
+        const parsed = JSON.parse(raw.toString());
+        const msgs: any[] = Array.isArray(parsed) ? parsed : [parsed];
+        for (const msg of msgs) {
+          if (msg?.event_type === "order" || msg?.event_type === "trade") onEvent(msg);
+        }
+      } catch {
+        // Ignore non-JSON or malformed messages
+      }
+    });
+
+    ws.on("close", () => {
+      connected = false;
+      clearInterval(pingInterval);
+      if (alive) {
+        const delay = health.closed();
+        console.log(`[WS:user] Disconnected, polling orders until reconnected in ${(delay / 1000).toFixed(1)}s...`);
+        setTimeout(connect, delay);
+      }
+    });
+
+    ws.on("error", (err) => {
+      console.error("[WS:user] Error:", err.message);
+    });
+  }
+
+  connect();
+
+  return {
+    close() {
+      alive = false;
+      connected = false;
+      clearInterval(pingInterval);
+      if (ws.readyState === WebSocket.OPEN || ws.readyState === WebSocket.CONNECTING) {
+        ws.close();
+      }
+    },
+    isConnected() {
+      return connected;
+    },
+    stats() {
+      return { ...health.stats };
+    },
+  };
+}
+
+/**
+ * Update the local books from one market message and report prices.
+ * Shared by the live socket and replay. Returns the token ids whose book
+ * failed a consistency check and needs a fresh snapshot. Snapshot hash
+ * mismatches are only reported to `onHashMismatch`.
+ */
+export function dispatchMarketMessage(
+  msg: any,
+  onPrice: PriceCallback,
+  books: Map<string, OrderBook>,
+  receivedAt: number = now(),
+  onHashMismatch?: (tokenId: string) => void
+): string[] {
+  const bookFor = (tokenId: string) => {
+    let book = books.get(tokenId);
+    if (!book) {
+      book = createOrderBook(tokenId);
+      books.set(tokenId, book);
+    }
+    return book;
+  };
+
+  // Handle price_changes wrapper: {price_changes: [{asset_id, price, size, side, best_bid, best_ask, ...}]}
+  if (Array.isArray(msg.price_changes)) {
+    const desynced = new Set<string>();
+    const changed = new Map<string, any>(); // tokenId → last change applied
+
+    for (const pc of msg.price_changes) {
+      if (!pc.asset_id) continue;
+      if (!applyPriceChange(bookFor(pc.asset_id), pc, msg.timestamp)) {
+        desynced.add(pc.asset_id);
+      }
+      changed.set(pc.asset_id, pc);
+    }
+
+    for (const [tokenId, pc] of changed) {
+      const view = getBookView(bookFor(tokenId));
+      // Prefer our own best bid; fall back to what the feed reported
+      const price = view.synced && view.bestBid !== null
+        ? view.bestBid
+        : parseFloat(pc.best_bid ?? pc.price);
+      if (!isNaN(price)) {
+        onPrice(tokenId, price, view, receivedAt);
+      }
+    }
+    return [...desynced];
+  }
+
+  // Handle last_trade_price events
+  if (msg.event_type === "last_trade_price" && msg.asset_id && msg.price) {
+    const price = parseFloat(msg.price);
+    if (!isNaN(price)) {
+      const book = books.get(msg.asset_id);
+      onPrice(msg.asset_id, price, book ? getBookView(book) : null, receivedAt);
+    }
+  }
+
+  // Handle book snapshot (no event_type field in actual snapshots)
+  if (msg.asset_id && (msg.bids || msg.asks)) {
+    const book = bookFor(msg.asset_id);
+    if (!applyBookSnapshot(book, msg)) onHashMismatch?.(msg.asset_id);
+    const view = getBookView(book);
+    if (view.bestBid !== null) {
+      onPrice(msg.asset_id, view.bestBid, view, receivedAt);
+    }
+  }
+
+  return [];
+}
+
+function emitRawEvents(msg: any, onRawEvent: RawEventCallback): void {
+  if (Array.isArray(msg.price_changes)) {
+    // One event per token so each row can be replayed on its own
+    const byAsset = new Map<string, unknown[]>();
+    for (const pc of msg.price_changes) {
+      if (!pc.asset_id) continue;
+      const list = byAsset.get(pc.asset_id) ?? [];
+      list.push(pc);
+      byAsset.set(pc.asset_id, list);
+    }
+    for (const [assetId, changes] of byAsset) {
+      onRawEvent(assetId, msg.event_type ?? "price_change", { ...msg, price_changes: changes });
+    }
+    return;
+  }
+
+  if (msg.asset_id) {
+    // Book snapshots arrive without an event_type field
+    onRawEvent(msg.asset_id, msg.event_type ?? "book", msg);
+  }
+}